@@ -0,0 +1,46 @@
+import type { Account, Organization } from "./apollo-types.js";
+import { normalizeDomain } from "./cache.js";
+
+export interface AccountFields {
+  name?: string;
+  domain?: string;
+  owner_id?: string;
+  account_stage_id?: string;
+  phone?: string;
+  raw_address?: string;
+  organization_id?: string;
+  industry?: string;
+  estimated_num_employees?: number;
+}
+
+// Carries an enriched Apollo organization over into account fields. Explicit fields win over
+// enriched ones so the caller can still override, e.g., the display name.
+export function accountFieldsFromOrganization(org: Organization, fields: AccountFields = {}): AccountFields {
+  const location = [org.street_address, org.city, org.state, org.postal_code, org.country].filter(Boolean).join(", ");
+  const enriched: AccountFields = {
+    name: org.name ?? undefined,
+    domain: org.primary_domain ?? undefined,
+    phone: org.primary_phone?.number || org.phone || undefined,
+    raw_address: org.raw_address || location || undefined,
+    organization_id: org.id,
+    industry: org.industry ?? undefined,
+    estimated_num_employees: org.estimated_num_employees ?? undefined,
+  };
+
+  const merged: AccountFields = { ...enriched };
+  for (const [key, value] of Object.entries(fields) as [keyof AccountFields, any][]) {
+    if (value !== undefined) merged[key] = value;
+  }
+  for (const key of Object.keys(merged) as (keyof AccountFields)[]) {
+    if (merged[key] === undefined || merged[key] === null) delete merged[key];
+  }
+  return merged;
+}
+
+// An account with the same domain is the same company; names alone are too ambiguous.
+export function findDuplicateAccount<T extends Partial<Account>>(fields: AccountFields, accounts: T[]): T | undefined {
+  if (!fields.domain) return undefined;
+  const domain = normalizeDomain(fields.domain);
+  return accounts.find((a) => (a.domain && normalizeDomain(a.domain) === domain) ||
+    (a.organization?.primary_domain && normalizeDomain(a.organization.primary_domain) === domain));
+}
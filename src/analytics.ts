@@ -0,0 +1,130 @@
+import type { EmailerCampaign } from "./apollo-types.js";
+
+export const SEQUENCE_METRICS = ["reply_rate", "interested_rate", "bounce_rate", "opt_out_rate", "contacted"] as const;
+export type SequenceMetric = (typeof SEQUENCE_METRICS)[number];
+
+// Rates where a lower value is the better one; ranking sorts these ascending.
+const LOWER_IS_BETTER = new Set<SequenceMetric>(["bounce_rate", "opt_out_rate"]);
+
+export interface SequenceStats {
+  id: string;
+  name: string;
+  active: boolean;
+  contacted: number;
+  bounced: number;
+  replied: number;
+  interested: number;
+  opt_out: number;
+  // Shares of contacted people, from 0 to 1; null until someone has been contacted.
+  bounce_rate: number | null;
+  reply_rate: number | null;
+  interested_rate: number | null;
+  opt_out_rate: number | null;
+}
+
+export interface HealthThresholds {
+  max_bounce_rate: number;
+  max_opt_out_rate: number;
+  min_reply_rate: number;
+  // Sequences that contacted fewer people are too small to judge and are never flagged.
+  min_contacted: number;
+}
+
+export const DEFAULT_HEALTH_THRESHOLDS: HealthThresholds = {
+  max_bounce_rate: 0.05,
+  max_opt_out_rate: 0.02,
+  min_reply_rate: 0.01,
+  min_contacted: 20,
+};
+
+function rate(count: number, contacted: number): number | null {
+  return contacted > 0 ? Math.round((count / contacted) * 10_000) / 10_000 : null;
+}
+
+export function sequenceStats(sequence: EmailerCampaign): SequenceStats {
+  const contacted = Number(sequence.num_contacted_people) || 0;
+  const bounced = Number(sequence.num_bounced_people) || 0;
+  const replied = Number(sequence.num_replied_people) || 0;
+  const interested = Number(sequence.num_interested_people) || 0;
+  const optOut = Number(sequence.num_opt_out_people) || 0;
+  return {
+    id: sequence.id,
+    name: sequence.name ?? "",
+    active: Boolean(sequence.active),
+    contacted,
+    bounced,
+    replied,
+    interested,
+    opt_out: optOut,
+    bounce_rate: rate(bounced, contacted),
+    reply_rate: rate(replied, contacted),
+    interested_rate: rate(interested, contacted),
+    opt_out_rate: rate(optOut, contacted),
+  };
+}
+
+// Portfolio-wide counts and rates, weighting each sequence by how many people it contacted.
+export function totalStats(stats: SequenceStats[]) {
+  const sum = (key: "contacted" | "bounced" | "replied" | "interested" | "opt_out") =>
+    stats.reduce((total, s) => total + s[key], 0);
+  const { id, name, active, ...totals } = sequenceStats({
+    id: "total",
+    num_contacted_people: sum("contacted"),
+    num_bounced_people: sum("bounced"),
+    num_replied_people: sum("replied"),
+    num_interested_people: sum("interested"),
+    num_opt_out_people: sum("opt_out"),
+  });
+  return { sequences: stats.length, ...totals };
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+// Lists what is wrong with a sequence, worded for a human; empty when it is healthy or too small to judge.
+export function sequenceIssues(stats: SequenceStats, thresholds: HealthThresholds = DEFAULT_HEALTH_THRESHOLDS): string[] {
+  if (stats.contacted === 0 || stats.contacted < thresholds.min_contacted) return [];
+
+  const issues: string[] = [];
+  if (stats.bounce_rate! > thresholds.max_bounce_rate) {
+    issues.push(`bounce rate ${percent(stats.bounce_rate!)} is above ${percent(thresholds.max_bounce_rate)}`);
+  }
+  if (stats.opt_out_rate! > thresholds.max_opt_out_rate) {
+    issues.push(`opt-out rate ${percent(stats.opt_out_rate!)} is above ${percent(thresholds.max_opt_out_rate)}`);
+  }
+  if (stats.reply_rate! < thresholds.min_reply_rate) {
+    issues.push(`reply rate ${percent(stats.reply_rate!)} is below ${percent(thresholds.min_reply_rate)}`);
+  }
+  return issues;
+}
+
+// Best first. Sequences without a value for the metric (nobody contacted) go last.
+export function rankSequences(stats: SequenceStats[], metric: SequenceMetric): SequenceStats[] {
+  const direction = LOWER_IS_BETTER.has(metric) ? 1 : -1;
+  return [...stats].sort((a, b) => {
+    const left = a[metric];
+    const right = b[metric];
+    if (left === null || right === null) return (left === null ? 1 : 0) - (right === null ? 1 : 0);
+    return (left - right) * direction || b.contacted - a.contacted;
+  });
+}
+
+export interface MetricComparison {
+  metric: SequenceMetric;
+  a: number | null;
+  b: number | null;
+  difference: number | null;
+  better: "a" | "b" | "tie" | null;
+}
+
+// Side by side, with `difference` as b minus a and `better` judged by the metric's direction.
+export function compareSequences(a: SequenceStats, b: SequenceStats): MetricComparison[] {
+  return SEQUENCE_METRICS.map((metric) => {
+    const left = a[metric];
+    const right = b[metric];
+    if (left === null || right === null) return { metric, a: left, b: right, difference: null, better: null };
+
+    const difference = Math.round((right - left) * 10_000) / 10_000;
+    const bIsBetter = LOWER_IS_BETTER.has(metric) ? difference < 0 : difference > 0;
+    return { metric, a: left, b: right, difference, better: difference === 0 ? "tie" : bIsBetter ? "b" : "a" };
+  });
+}
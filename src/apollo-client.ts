@@ -0,0 +1,567 @@
+import axios, { AxiosInstance, InternalAxiosRequestConfig } from "axios";
+import { chunk, mapWithConcurrency } from "./batch.js";
+import { collectPages } from "./pagination.js";
+import { DEFAULT_RETRY_OPTIONS, RetryOptions, describeWait, withRetry } from "./retry.js";
+import { RateLimiter, normalizeEndpoint } from "./rate-limiter.js";
+import { CacheInfo, ResponseCache, normalizeDomain, personCacheKey } from "./cache.js";
+import { findDuplicateContact } from "./contacts.js";
+import { MEMBERSHIP_MODES, SequenceMembershipAction, checkEnrollment } from "./sequences.js";
+import { AccountFields, findDuplicateAccount } from "./accounts.js";
+import { Capabilities, Capability, probeCapabilities } from "./capabilities.js";
+import { CreditBudgetError, UsageTracker } from "./usage.js";
+import { AuditLog, countRecords } from "./audit.js";
+import { currentCall, outsideCall } from "./call-context.js";
+import type {
+  Account,
+  AccountResponse,
+  AccountSearchResponse,
+  AddContactsToSequenceResponse,
+  BulkPersonMatchResponse,
+  ContactResponse,
+  ContactSearchResponse,
+  ContactStagesResponse,
+  EmailAccountsResponse,
+  EmailerCampaign,
+  EmailerCampaignSearchResponse,
+  EmailerMessageSearchResponse,
+  EmailerTouchesResponse,
+  OrganizationEnrichResponse,
+  OrganizationSearchResponse,
+  PeopleSearchResponse,
+  Person,
+  PersonMatchResponse,
+  UpdateResponse,
+} from "./apollo-types.js";
+
+export type * from "./apollo-types.js";
+export type { AccountFields } from "./accounts.js";
+export type { SequenceMembershipAction } from "./sequences.js";
+
+export const DEFAULT_BASE_URL = "https://api.apollo.io/v1";
+
+const BULK_MATCH_BATCH_SIZE = 10;
+
+export interface ApolloErrorDetails {
+  status?: number;
+  detail?: string;
+  attempts?: number;
+  retryAfterMs?: number;
+  cause?: unknown;
+}
+
+// Every failed Apollo request surfaces as one of these, so callers can tell Apollo's answers apart from
+// their own bugs and branch on the subclass instead of on HTTP status codes.
+export class ApolloError extends Error {
+  readonly status?: number;
+  // Apollo's own explanation, when the response carried one.
+  readonly detail?: string;
+  // Requests made, retries included, before giving up.
+  readonly attempts: number;
+  // How long Apollo asked to wait before the next request, when that was too long to wait for.
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, details: ApolloErrorDetails = {}) {
+    super(message, { cause: details.cause });
+    this.name = new.target.name;
+    this.status = details.status;
+    this.detail = details.detail;
+    this.attempts = details.attempts ?? 1;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+}
+
+// 401: the API key is missing, wrong or revoked.
+export class ApolloAuthenticationError extends ApolloError {}
+// 403: the key or plan may not use the endpoint, e.g. a regular key calling a master-key endpoint.
+export class ApolloPermissionError extends ApolloError {}
+export class ApolloNotFoundError extends ApolloError {}
+// Other 4xx answers: Apollo rejected the parameters.
+export class ApolloRequestError extends ApolloError {}
+// 429 after the retries ran out.
+export class ApolloRateLimitError extends ApolloError {}
+export class ApolloServerError extends ApolloError {}
+// No response at all: timeouts, refused connections, DNS failures.
+export class ApolloNetworkError extends ApolloError {}
+
+function errorClass(status: number) {
+  if (status === 401) return ApolloAuthenticationError;
+  if (status === 403) return ApolloPermissionError;
+  if (status === 404) return ApolloNotFoundError;
+  if (status === 429) return ApolloRateLimitError;
+  if (status >= 500) return ApolloServerError;
+  return ApolloRequestError;
+}
+
+// Failures that say nothing about the request that hit them: the key, the plan, the quota, the credit budget
+// or the network. Every following request would fail the same way, so batch work should stop on them.
+export function isSystemicError(error: unknown): boolean {
+  return error instanceof ApolloAuthenticationError ||
+    error instanceof ApolloPermissionError ||
+    error instanceof ApolloRateLimitError ||
+    error instanceof ApolloNetworkError ||
+    error instanceof CreditBudgetError;
+}
+
+// Turns an axios failure into the matching ApolloError; anything else is returned unchanged.
+export function toApolloError(error: unknown): unknown {
+  if (error instanceof ApolloError || !axios.isAxiosError(error)) return error;
+  const { attempts, retryAfterMs } = error as { attempts?: number; retryAfterMs?: number };
+
+  if (!error.response) {
+    return new ApolloNetworkError(error.message || "Could not reach Apollo", { attempts, cause: error });
+  }
+  const { status, data } = error.response;
+  const detail = [data?.error, data?.message].find((value): value is string => typeof value === "string" && value !== "");
+  const ErrorClass = errorClass(status);
+  const retry = retryAfterMs !== undefined ? ` (Apollo asked to wait ${describeWait(retryAfterMs)} before retrying)` : "";
+  return new ErrorClass(`Apollo API error ${status}${detail ? `: ${detail}` : ""}${retry}`, {
+    status,
+    detail,
+    attempts,
+    retryAfterMs,
+    cause: error,
+  });
+}
+
+export interface ApolloClientOptions extends Partial<RetryOptions> {
+  // Where the API lives, e.g. a proxy or a mock server in tests (default: https://api.apollo.io/v1).
+  baseUrl?: string;
+  timeoutMs?: number;
+  rateLimitMaxWaitMs?: number;
+  // Reuses person and organization enrichments; without it every enrichment calls Apollo.
+  cache?: ResponseCache;
+  // Counts the credits searches and enrichments consume and enforces credit budgets.
+  usage?: UsageTracker;
+  // Logs every HTTP request to Apollo, retries included, against the tool call that made it.
+  audit?: AuditLog;
+}
+
+export interface PersonMatchDetails {
+  first_name?: string;
+  last_name?: string;
+  email?: string;
+  domain?: string;
+  organization_name?: string;
+}
+
+export interface ContactFields {
+  first_name?: string;
+  last_name?: string;
+  email?: string;
+  title?: string;
+  organization_name?: string;
+  website_url?: string;
+  account_id?: string;
+  contact_stage_id?: string;
+  label_names?: string[];
+  direct_phone?: string;
+  mobile_phone?: string;
+  present_raw_address?: string;
+}
+
+export interface BulkEnrichRow {
+  index: number;
+  status: "matched" | "not_found" | "error";
+  person?: Person;
+  error?: string;
+  // Set on errors that would hit any row, see isSystemicError.
+  systemic?: boolean;
+}
+
+export interface Cached<T> {
+  result: T;
+  cache: CacheInfo;
+}
+
+export interface PeopleSearchParams {
+  q_keywords?: string;
+  person_titles?: string[];
+  include_similar_titles?: boolean;
+  person_locations?: string[];
+  person_seniorities?: string[];
+  person_department_or_subdepartments?: string[];
+  contact_email_status?: string[];
+  organization_ids?: string[];
+  q_organization_domains_list?: string[];
+  organization_locations?: string[];
+  organization_num_employees_ranges?: string[];
+  revenue_range?: { min?: number; max?: number };
+  currently_using_all_of_technology_uids?: string[];
+  currently_using_any_of_technology_uids?: string[];
+  currently_not_using_any_of_technology_uids?: string[];
+  page?: number;
+  per_page?: number;
+}
+
+export interface OrganizationSearchParams {
+  q_keywords?: string;
+  organization_locations?: string[];
+  organization_num_employees_ranges?: string[];
+  page?: number;
+  per_page?: number;
+}
+
+export interface SequenceSearchParams {
+  name?: string;
+  page?: number;
+  per_page?: number;
+}
+
+export interface AccountSearchParams {
+  q_organization_name?: string;
+  account_stage_ids?: string[];
+  sort_by_field?: string;
+  sort_ascending?: boolean;
+  page?: number;
+  per_page?: number;
+}
+
+export interface ContactSearchParams {
+  q_keywords?: string;
+  contact_stage_ids?: string[];
+  sort_by_field?: string;
+  sort_ascending?: boolean;
+  page?: number;
+  per_page?: number;
+}
+
+export interface EmailerMessageSearchParams {
+  emailer_campaign_ids?: string[];
+  sent_after?: string;
+  sent_before?: string;
+  page?: number;
+  per_page?: number;
+}
+
+export class ApolloClient {
+  private api: AxiosInstance;
+  private retryOptions: RetryOptions;
+  private rateLimiter: RateLimiter;
+  private cache?: ResponseCache;
+  private usage?: UsageTracker;
+  private audit?: AuditLog;
+  // When each request left the rate limiter, for the audit log's latency.
+  private started = new WeakMap<InternalAxiosRequestConfig, number>();
+  private capabilityProbe?: Promise<Capabilities>;
+
+  constructor(apiKey: string, options: ApolloClientOptions = {}) {
+    this.retryOptions = {
+      maxAttempts: options.maxAttempts ?? DEFAULT_RETRY_OPTIONS.maxAttempts,
+      baseDelayMs: options.baseDelayMs ?? DEFAULT_RETRY_OPTIONS.baseDelayMs,
+      maxDelayMs: options.maxDelayMs ?? DEFAULT_RETRY_OPTIONS.maxDelayMs,
+    };
+    this.cache = options.cache;
+    this.usage = options.usage;
+    this.audit = options.audit;
+    this.rateLimiter = new RateLimiter({ maxWaitMs: options.rateLimitMaxWaitMs ?? 60_000 });
+    this.api = axios.create({
+      baseURL: options.baseUrl ?? DEFAULT_BASE_URL,
+      timeout: options.timeoutMs ?? 30_000,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-cache",
+        "X-Api-Key": apiKey,
+      },
+    });
+
+    // Every attempt, including retries, waits for quota and feeds Apollo's usage headers back.
+    this.api.interceptors.request.use(async (config) => {
+      await this.rateLimiter.acquire(normalizeEndpoint(config.url || ""));
+      this.started.set(config, Date.now());
+      return config;
+    });
+    this.api.interceptors.response.use(
+      (response) => {
+        this.rateLimiter.update(normalizeEndpoint(response.config.url || ""), response.headers);
+        this.logRequest(response.config, response.status, response.data);
+        return response;
+      },
+      (error) => {
+        if (error.response) {
+          this.rateLimiter.update(normalizeEndpoint(error.config?.url || ""), error.response.headers);
+        }
+        if (error.config) this.logRequest(error.config, error.response?.status ?? null, error.response?.data, error.message);
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  private logRequest(config: InternalAxiosRequestConfig, status: number | null, data: unknown, error?: string) {
+    if (!this.audit) return;
+    const body = (data && typeof data === "object" ? data : {}) as { credits_consumed?: unknown; error?: unknown };
+    const call = currentCall();
+    this.audit.write({
+      type: "apollo",
+      call_id: call?.id,
+      tool: call?.tool,
+      tenant: call?.tenant,
+      method: (config.method || "get").toUpperCase(),
+      endpoint: normalizeEndpoint(config.url || ""),
+      http_status: status,
+      status: status !== null && status < 400 ? "ok" : "error",
+      latency_ms: Date.now() - (this.started.get(config) ?? Date.now()),
+      result_counts: countRecords(data),
+      ...(typeof body.credits_consumed === "number" && { credits: body.credits_consumed }),
+      ...(error && { error: typeof body.error === "string" ? `${error}: ${body.error}` : error }),
+    });
+  }
+
+  getRateLimitStatus(endpoint?: string) {
+    return this.rateLimiter.status(endpoint);
+  }
+
+  // Probed once per key; listing email accounts is free and only allowed for master keys. A single
+  // short attempt, since tools/list waits on it.
+  capabilities(): Promise<Capabilities> {
+    this.capabilityProbe ??= outsideCall(() => probeCapabilities(() => this.api.get("/email_accounts", { timeout: 5_000 })));
+    return this.capabilityProbe;
+  }
+
+  // Records what a real call revealed, e.g. a 403 from a master-key endpoint the probe could not rule out.
+  noteCapability(capability: Capability, available: boolean) {
+    this.capabilityProbe = this.capabilities().then((known) => ({ ...known, [capability]: available }));
+  }
+
+  // Retries are decided on the raw axios error; callers only ever see the ApolloError it becomes.
+  private async send<T>(request: () => Promise<{ data: T }>, idempotent = true): Promise<T> {
+    try {
+      return (await withRetry(request, { ...this.retryOptions, idempotent })).data;
+    } catch (error) {
+      throw toApolloError(error);
+    }
+  }
+
+  // Calls that can cost credits go through here. Apollo's own credits_consumed is used when the response
+  // has one; otherwise creditsOf estimates it, e.g. one credit per matched person.
+  private metered<T extends { credits_consumed?: number | null }>(
+    endpoint: string,
+    estimate: number,
+    request: () => Promise<T>,
+    creditsOf: (data: T) => number = () => 0
+  ): Promise<T> {
+    if (!this.usage) return request();
+    return this.usage.charge(endpoint, estimate, request, (data) => Number(data.credits_consumed ?? creditsOf(data)) || 0);
+  }
+
+  // Credits spent by tool and by day, or undefined when the client was created without usage tracking.
+  async usageReport(days = 7) {
+    return this.usage?.report(days);
+  }
+
+  async searchPeople(params: PeopleSearchParams) {
+    return this.metered("/mixed_people/search", 0, () =>
+      this.send(() => this.api.post<PeopleSearchResponse>("/mixed_people/search", params)));
+  }
+
+  // Serves a previous response for the same normalized input when one is cached. Only hits are
+  // stored, so a person or company Apollo didn't know yesterday is looked up again today.
+  private async cached<T>(
+    namespace: string,
+    key: string,
+    bypassCache: boolean,
+    fetch: () => Promise<T>,
+    isHit: (data: T) => boolean
+  ): Promise<Cached<T>> {
+    if (this.cache && !bypassCache) {
+      const entry = await this.cache.get(namespace, key);
+      if (entry) {
+        return { result: entry.value, cache: { hit: true, key, stored_at: new Date(entry.stored_at).toISOString() } };
+      }
+    }
+
+    const result = await fetch();
+    if (this.cache && isHit(result)) {
+      await this.cache.set(namespace, key, result).catch((error) => {
+        console.error(`Failed to write ${namespace} cache entry:`, error.message);
+      });
+    }
+    return { result, cache: { hit: false, key } };
+  }
+
+  async enrichPerson(params: PersonMatchDetails, options: { bypassCache?: boolean } = {}): Promise<Cached<PersonMatchResponse>> {
+    return this.cached(
+      "people",
+      personCacheKey(params),
+      options.bypassCache ?? false,
+      () => this.metered("/people/match", 1, () => this.send(() => this.api.post<PersonMatchResponse>("/people/match", params)),
+        (data) => (data.person ? 1 : 0)),
+      (data) => Boolean(data.person)
+    );
+  }
+
+  async bulkEnrichPeople(details: PersonMatchDetails[], concurrency = 3): Promise<BulkEnrichRow[]> {
+    const batches = chunk(details.map((d, index) => ({ ...d, index })), BULK_MATCH_BATCH_SIZE);
+
+    const batchResults = await mapWithConcurrency(batches, concurrency, async (batch) => {
+      try {
+        const data = await this.metered("/people/bulk_match", batch.length, () =>
+          this.send(() => this.api.post<BulkPersonMatchResponse>("/people/bulk_match", {
+            details: batch.map(({ index, ...d }) => d),
+          })),
+          (data) => (data.matches || []).filter(Boolean).length);
+        const matches = data.matches || [];
+
+        return batch.map(({ index }, i): BulkEnrichRow => {
+          const person = matches[i];
+          return person ? { index, status: "matched", person } : { index, status: "not_found" };
+        });
+      } catch (error) {
+        const attempts = error instanceof ApolloError && error.attempts > 1 ? ` (gave up after ${error.attempts} attempts)` : "";
+        const message = `${(error as Error).message || "Bulk match request failed"}${attempts}`;
+        const systemic = isSystemicError(error);
+        return batch.map(({ index }): BulkEnrichRow => ({ index, status: "error", error: message, systemic }));
+      }
+    });
+
+    return batchResults.flat();
+  }
+
+  async enrichOrganization(domain: string, options: { bypassCache?: boolean } = {}): Promise<Cached<OrganizationEnrichResponse>> {
+    return this.cached(
+      "organizations",
+      `domain:${normalizeDomain(domain)}`,
+      options.bypassCache ?? false,
+      () => this.metered("/organizations/enrich", 1, () =>
+        this.send(() => this.api.post<OrganizationEnrichResponse>("/organizations/enrich", { domain })),
+        (data) => (data.organization ? 1 : 0)),
+      (data) => Boolean(data.organization)
+    );
+  }
+
+  async searchOrganizations(params: OrganizationSearchParams) {
+    return this.metered("/mixed_companies/search", 0, () =>
+      this.send(() => this.api.post<OrganizationSearchResponse>("/mixed_companies/search", params)));
+  }
+
+  async searchSequences(params: SequenceSearchParams = {}) {
+    return this.send(() => this.api.post<EmailerCampaignSearchResponse>("/emailer_campaigns/search", params));
+  }
+
+  async searchAccounts(params: AccountSearchParams) {
+    return this.send(() => this.api.post<AccountSearchResponse>("/accounts/search", params));
+  }
+
+  // Account search only filters by name, so an account named differently from the given name is looked for
+  // under the first label of the domain too ("acme" for acme.io); domains decide which result is a duplicate.
+  async findDuplicateAccount(fields: AccountFields): Promise<Account | undefined> {
+    if (!fields.domain) return undefined;
+    const label = normalizeDomain(fields.domain).split(".")[0];
+    for (const q_organization_name of new Set([fields.name, label].filter(Boolean) as string[])) {
+      const result = await this.searchAccounts({ q_organization_name, per_page: 100 });
+      const duplicate = findDuplicateAccount(fields, result.accounts || []);
+      if (duplicate) return duplicate;
+    }
+    return undefined;
+  }
+
+  async createAccount(fields: AccountFields) {
+    return this.send(() => this.api.post<AccountResponse>("/accounts", fields), false);
+  }
+
+  async updateAccount(accountId: string, fields: AccountFields) {
+    return this.send(() => this.api.put<AccountResponse>(`/accounts/${accountId}`, fields));
+  }
+
+  async updateAccountOwners(accountIds: string[], ownerId: string) {
+    return this.send(() => this.api.post<UpdateResponse>("/accounts/update_owners", {
+      account_ids: accountIds,
+      owner_id: ownerId,
+    }));
+  }
+
+  async listSequences(name?: string) {
+    const { records } = await collectPages<EmailerCampaign>(
+      (page, per_page) => this.searchSequences({ ...(name && { name }), page, per_page }),
+      { key: "emailer_campaigns" }
+    );
+    return records;
+  }
+
+  async findSequence(sequenceId: string) {
+    const sequences = await this.listSequences();
+    return sequences.find((s) => s.id === sequenceId);
+  }
+
+  async checkSequenceEnrollment(sequenceId: string, emailAccountId: string) {
+    const [sequence, accounts] = await Promise.all([this.findSequence(sequenceId), this.getEmailAccounts()]);
+    const account = (accounts.email_accounts || []).find((a) => a.id === emailAccountId);
+    return checkEnrollment(sequenceId, emailAccountId, sequence, account);
+  }
+
+  async addContactsToSequence(
+    sequenceId: string,
+    contactIds: string[],
+    emailAccountId: string,
+    options: { addIfInOtherSequences?: boolean } = {}
+  ) {
+    return this.send(() => this.api.post<AddContactsToSequenceResponse>(`/emailer_campaigns/${sequenceId}/add_contact_ids`, {
+      emailer_campaign_id: sequenceId,
+      contact_ids: contactIds,
+      send_email_from_email_account_id: emailAccountId,
+      sequence_active_in_other_campaigns: options.addIfInOtherSequences ?? false,
+    }), false);
+  }
+
+  async updateSequenceMembership(sequenceIds: string[], contactIds: string[], action: SequenceMembershipAction) {
+    return this.send(() => this.api.post<UpdateResponse>("/emailer_campaigns/remove_or_stop_contact_ids", {
+      emailer_campaign_ids: sequenceIds,
+      contact_ids: contactIds,
+      mode: MEMBERSHIP_MODES[action],
+    }));
+  }
+
+  async getEmailAccounts() {
+    return this.send(() => this.api.get<EmailAccountsResponse>("/email_accounts"));
+  }
+
+  async searchEmailerMessages(params: EmailerMessageSearchParams) {
+    const query: Record<string, unknown> = {
+      emailer_campaign_ids: params.emailer_campaign_ids,
+      emailer_message_date_range_mode: "completed_at",
+      "emailerMessageDateRange[min]": params.sent_after,
+      "emailerMessageDateRange[max]": params.sent_before,
+      page: params.page,
+      per_page: params.per_page,
+    };
+    return this.send(() => this.api.get<EmailerMessageSearchResponse>("/emailer_messages/search", { params: query }));
+  }
+
+  async getEmailMessageActivities(messageId: string) {
+    return this.send(() => this.api.get<EmailerTouchesResponse>(`/emailer_messages/${messageId}/activities`));
+  }
+
+  async searchContacts(params: ContactSearchParams) {
+    return this.send(() => this.api.post<ContactSearchResponse>("/contacts/search", params));
+  }
+
+  // Looks for an existing contact by email, then by full name at the same company.
+  async findDuplicateContact(fields: ContactFields) {
+    const queries = [fields.email, [fields.first_name, fields.last_name].filter(Boolean).join(" ")];
+    for (const q_keywords of queries) {
+      if (!q_keywords) continue;
+      const result = await this.searchContacts({ q_keywords, per_page: 100 });
+      const match = findDuplicateContact(fields, result.contacts || []);
+      if (match) return match;
+    }
+    return undefined;
+  }
+
+  async createContact(fields: ContactFields) {
+    return this.send(() => this.api.post<ContactResponse>("/contacts", fields), false);
+  }
+
+  async updateContact(contactId: string, fields: ContactFields) {
+    return this.send(() => this.api.put<ContactResponse>(`/contacts/${contactId}`, fields));
+  }
+
+  async updateContactStages(contactIds: string[], contactStageId: string) {
+    return this.send(() => this.api.post<UpdateResponse>("/contacts/update_stages", {
+      contact_ids: contactIds,
+      contact_stage_id: contactStageId,
+    }));
+  }
+
+  async getContactStages() {
+    return this.send(() => this.api.get<ContactStagesResponse>("/contact_stages"));
+  }
+}
@@ -0,0 +1,228 @@
+// Shapes of the Apollo API records and responses the client returns. Apollo sends far more fields than
+// are listed here and leaves many of them null; the index signatures keep the rest reachable as unknown.
+
+type Text = string | null;
+type Count = number | null;
+
+export interface Pagination {
+  page?: Count;
+  per_page?: Count;
+  total_entries?: Count;
+  total_pages?: Count;
+}
+
+export interface PhoneNumber {
+  raw_number?: Text;
+  sanitized_number?: Text;
+  type?: Text;
+}
+
+export interface Technology {
+  uid?: Text;
+  name?: Text;
+  category?: Text;
+}
+
+export interface Organization {
+  id: string;
+  name?: Text;
+  website_url?: Text;
+  primary_domain?: Text;
+  linkedin_url?: Text;
+  industry?: Text;
+  keywords?: string[] | null;
+  estimated_num_employees?: Count;
+  annual_revenue?: Count;
+  founded_year?: Count;
+  short_description?: Text;
+  phone?: Text;
+  primary_phone?: { number?: Text } | null;
+  raw_address?: Text;
+  street_address?: Text;
+  city?: Text;
+  state?: Text;
+  postal_code?: Text;
+  country?: Text;
+  current_technologies?: Technology[] | null;
+  technology_names?: string[] | null;
+  [field: string]: unknown;
+}
+
+export interface Person {
+  id: string;
+  first_name?: Text;
+  last_name?: Text;
+  name?: Text;
+  title?: Text;
+  headline?: Text;
+  email?: Text;
+  email_status?: Text;
+  linkedin_url?: Text;
+  seniority?: Text;
+  departments?: string[] | null;
+  city?: Text;
+  state?: Text;
+  country?: Text;
+  organization_id?: Text;
+  organization?: Organization | null;
+  phone_numbers?: PhoneNumber[] | null;
+  [field: string]: unknown;
+}
+
+// A person saved to the workspace.
+export interface Contact extends Person {
+  organization_name?: Text;
+  account_id?: Text;
+  account?: Account | null;
+  contact_stage_id?: Text;
+  owner_id?: Text;
+  label_names?: string[] | null;
+}
+
+// A company saved to the workspace.
+export interface Account {
+  id: string;
+  name?: Text;
+  domain?: Text;
+  industry?: Text;
+  estimated_num_employees?: Count;
+  account_stage_id?: Text;
+  owner_id?: Text;
+  organization_id?: Text;
+  organization?: Organization | null;
+  [field: string]: unknown;
+}
+
+export interface ContactStage {
+  id: string;
+  name?: Text;
+  category?: Text;
+  display_order?: Count;
+  [field: string]: unknown;
+}
+
+// A sequence; Apollo's API still calls them emailer campaigns.
+export interface EmailerCampaign {
+  id: string;
+  name?: Text;
+  active?: boolean | null;
+  archived?: boolean | null;
+  num_steps?: Count;
+  created_at?: Text;
+  num_contacted_people?: Count;
+  num_bounced_people?: Count;
+  num_replied_people?: Count;
+  num_interested_people?: Count;
+  num_opt_out_people?: Count;
+  [field: string]: unknown;
+}
+
+export interface EmailAccount {
+  id: string;
+  email?: Text;
+  type?: Text;
+  active?: boolean | null;
+  default?: boolean | null;
+  user_id?: Text;
+  [field: string]: unknown;
+}
+
+// One email sent by a sequence step.
+export interface EmailerMessage {
+  id: string;
+  emailer_campaign_id?: Text;
+  emailer_step_id?: Text;
+  contact_id?: Text;
+  email_account_id?: Text;
+  from_email?: Text;
+  to_email?: Text;
+  subject?: Text;
+  status?: Text;
+  completed_at?: Text;
+  [field: string]: unknown;
+}
+
+// An open, click or reply recorded against an emailer message.
+export interface EmailerTouch {
+  id?: string;
+  emailer_message_id?: Text;
+  touch_type?: "opened" | "clicked" | "replied" | (string & {}) | null;
+  created_at?: Text;
+  user_agent?: Text;
+  [field: string]: unknown;
+}
+
+interface Paginated {
+  pagination?: Pagination;
+  // Searches against Apollo's global database report the credits they cost.
+  credits_consumed?: Count;
+}
+
+export interface PeopleSearchResponse extends Paginated {
+  people?: Person[];
+  contacts?: Contact[];
+}
+
+export interface OrganizationSearchResponse extends Paginated {
+  organizations?: Organization[];
+  accounts?: Account[];
+}
+
+export interface PersonMatchResponse {
+  person?: Person | null;
+  credits_consumed?: Count;
+}
+
+export interface BulkPersonMatchResponse {
+  matches?: (Person | null)[];
+  credits_consumed?: Count;
+}
+
+export interface OrganizationEnrichResponse {
+  organization?: Organization | null;
+  credits_consumed?: Count;
+}
+
+export interface EmailerCampaignSearchResponse extends Paginated {
+  emailer_campaigns?: EmailerCampaign[];
+}
+
+export interface EmailerMessageSearchResponse extends Paginated {
+  emailer_messages?: EmailerMessage[];
+}
+
+export interface EmailerTouchesResponse {
+  emailer_touches?: EmailerTouch[];
+}
+
+export interface EmailAccountsResponse {
+  email_accounts?: EmailAccount[];
+}
+
+export interface ContactSearchResponse extends Paginated {
+  contacts?: Contact[];
+}
+
+export interface ContactResponse {
+  contact: Contact;
+}
+
+export interface ContactStagesResponse {
+  contact_stages?: ContactStage[];
+}
+
+export interface AccountSearchResponse extends Paginated {
+  accounts?: Account[];
+}
+
+export interface AccountResponse {
+  account: Account;
+}
+
+export interface AddContactsToSequenceResponse {
+  contacts?: Contact[];
+  emailer_campaign?: EmailerCampaign;
+}
+
+// Bulk writes answer with whatever Apollo chose to echo back; callers only rely on the call succeeding.
+export type UpdateResponse = Record<string, unknown>;
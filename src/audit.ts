@@ -0,0 +1,202 @@
+import { createHash } from "node:crypto";
+import { appendFile, mkdir, readFile, rename, stat } from "node:fs/promises";
+import { homedir } from "node:os";
+import path from "node:path";
+
+// mask keeps enough to recognize a value (a***@acme.io), hash keeps a stable digest so the same person
+// can be found across entries without storing them, none logs arguments as given.
+export const REDACTION_MODES = ["mask", "hash", "none"] as const;
+export type RedactionMode = (typeof REDACTION_MODES)[number];
+
+export interface AuditOptions {
+  file: string;
+  redact?: RedactionMode;
+  // The file is rotated to file.1, file.2, ... once it would grow past maxBytes; maxFiles rotated files are kept.
+  maxBytes?: number;
+  maxFiles?: number;
+  now?: () => number;
+}
+
+interface AuditEntryBase {
+  at: string;
+  call_id?: string;
+  tool?: string;
+  tenant?: string;
+  status: "ok" | "error";
+  latency_ms: number;
+  // Length of each array in the result, e.g. { people: 25 }.
+  result_counts?: Record<string, number>;
+  credits?: number;
+  error?: string;
+}
+
+// One tool invocation, as the MCP client made it.
+export interface ToolAuditEntry extends AuditEntryBase {
+  type: "tool";
+  client?: string;
+  session?: string;
+  arguments: unknown;
+}
+
+// One HTTP request to Apollo; retries are separate entries with the same call_id.
+export interface ApolloAuditEntry extends AuditEntryBase {
+  type: "apollo";
+  method: string;
+  endpoint: string;
+  http_status: number | null;
+}
+
+export type AuditEntry = ToolAuditEntry | ApolloAuditEntry;
+
+export interface AuditFilter {
+  type?: AuditEntry["type"];
+  tool?: string;
+  status?: AuditEntry["status"];
+  call_id?: string;
+  tenant?: string;
+  // ISO timestamp; older entries are skipped.
+  since?: string;
+  limit: number;
+}
+
+export function auditOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): AuditOptions | undefined {
+  if (["off", "false", "0"].includes((env.APOLLO_AUDIT ?? "").toLowerCase())) return undefined;
+  const dir = env.APOLLO_AUDIT_DIR || path.join(homedir(), ".local", "share", "apollo-io-mcp", "audit");
+  const redact = REDACTION_MODES.find((mode) => mode === env.APOLLO_AUDIT_REDACT) ?? "mask";
+  return {
+    file: path.join(dir, "audit.jsonl"),
+    redact,
+    maxBytes: (Number(env.APOLLO_AUDIT_MAX_MB) || 10) * 1024 * 1024,
+    maxFiles: Number(env.APOLLO_AUDIT_MAX_FILES) || 5,
+  };
+}
+
+// Never logged, whatever the redaction mode.
+const SECRET_KEY = /api_?key|token|secret|password/i;
+// Fields that identify a person; matched against argument keys at any depth.
+const PII_KEY = /^(e?mails?|personal_emails|(first_|last_)?name|phone(_numbers?)?|mobile_phone|raw_number|sanitized_number|linkedin_url|(to|from)_email)$/i;
+const MAX_ITEMS = 20;
+const MAX_STRING = 200;
+
+function redactValue(value: string, mode: RedactionMode): string {
+  if (mode === "hash") return `sha256:${createHash("sha256").update(value.trim().toLowerCase()).digest("hex").slice(0, 12)}`;
+  const at = value.indexOf("@");
+  if (at > 0) return `${value[0]}***${value.slice(at)}`;
+  return value ? `${value[0]}***` : value;
+}
+
+// Arguments as they are written to the log: secrets dropped, personal fields redacted, and long lists and
+// strings shortened so one bulk call cannot flood the file.
+export function sanitizeArguments(value: unknown, mode: RedactionMode, pii = false): unknown {
+  if (typeof value === "string") {
+    if (pii && mode !== "none") return redactValue(value, mode);
+    return value.length > MAX_STRING ? `${value.slice(0, MAX_STRING)}… (${value.length} characters)` : value;
+  }
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ITEMS).map((item) => sanitizeArguments(item, mode, pii));
+    return value.length > MAX_ITEMS ? [...items, `… ${value.length - MAX_ITEMS} more`] : items;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+      key,
+      SECRET_KEY.test(key) ? "[redacted]" : sanitizeArguments(item, mode, pii || PII_KEY.test(key)),
+    ]));
+  }
+  return value;
+}
+
+export function countRecords(value: unknown): Record<string, number> | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const counts = Object.fromEntries(
+    Object.entries(value).filter(([, item]) => Array.isArray(item)).map(([key, item]) => [key, (item as unknown[]).length])
+  );
+  return Object.keys(counts).length > 0 ? counts : undefined;
+}
+
+type NewEntry = Omit<ToolAuditEntry, "at"> | Omit<ApolloAuditEntry, "at">;
+
+// Append-only JSONL log of tool calls and Apollo requests. Writes are queued so rotation never interleaves
+// with an append; a failed write is reported on stderr and never fails the call being logged.
+export class AuditLog {
+  private size?: number;
+  private queue: Promise<void> = Promise.resolve();
+  private now: () => number;
+
+  constructor(private options: AuditOptions) {
+    this.now = options.now ?? Date.now;
+  }
+
+  get redaction(): RedactionMode {
+    return this.options.redact ?? "mask";
+  }
+
+  write(entry: NewEntry) {
+    const line = `${JSON.stringify({ at: new Date(this.now()).toISOString(), ...entry })}\n`;
+    this.queue = this.queue
+      .then(() => this.append(line))
+      .catch((error) => console.error("Failed to write the audit log:", error.message));
+  }
+
+  // Resolves once every entry written so far is on disk.
+  flush(): Promise<void> {
+    return this.queue;
+  }
+
+  private async append(line: string) {
+    const { file, maxBytes = 10 * 1024 * 1024 } = this.options;
+    const bytes = Buffer.byteLength(line);
+    if (this.size === undefined) {
+      await mkdir(path.dirname(file), { recursive: true });
+      this.size = await stat(file).then((s) => s.size, () => 0);
+    }
+    if (this.size > 0 && this.size + bytes > maxBytes) {
+      await this.rotate();
+      this.size = 0;
+    }
+    await appendFile(file, line, "utf8");
+    this.size += bytes;
+  }
+
+  private rotated(index: number) {
+    return index === 0 ? this.options.file : `${this.options.file}.${index}`;
+  }
+
+  private async rotate() {
+    const maxFiles = Math.max(1, this.options.maxFiles ?? 5);
+    for (let index = maxFiles - 1; index >= 0; index--) {
+      await rename(this.rotated(index), this.rotated(index + 1)).catch((error) => {
+        if (error.code !== "ENOENT") throw error;
+      });
+    }
+  }
+
+  // Newest entries first, across the current and rotated files.
+  async query(filter: AuditFilter): Promise<AuditEntry[]> {
+    await this.flush();
+    const matches: AuditEntry[] = [];
+    for (let index = 0; index <= Math.max(1, this.options.maxFiles ?? 5); index++) {
+      const text = await readFile(this.rotated(index), "utf8").catch(() => undefined);
+      if (text === undefined) break;
+      for (const line of text.split("\n").reverse()) {
+        let entry: AuditEntry;
+        try {
+          if (!line) continue;
+          entry = JSON.parse(line);
+        } catch {
+          continue;
+        }
+        if (filter.since && entry.at < filter.since) return matches;
+        if (
+          (filter.type && entry.type !== filter.type) ||
+          (filter.tool && entry.tool !== filter.tool) ||
+          (filter.status && entry.status !== filter.status) ||
+          (filter.call_id && entry.call_id !== filter.call_id) ||
+          (filter.tenant && entry.tenant !== filter.tenant)
+        ) continue;
+        matches.push(entry);
+        if (matches.length >= filter.limit) return matches;
+      }
+    }
+    return matches;
+  }
+}
@@ -0,0 +1,104 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import path from "node:path";
+
+export interface CacheOptions {
+  dir: string;
+  ttlMs: number;
+  now?: () => number;
+}
+
+export interface CacheInfo {
+  hit: boolean;
+  key: string;
+  stored_at?: string;
+}
+
+interface CacheEntry {
+  key: string;
+  stored_at: number;
+  value: any;
+}
+
+export function cacheOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): CacheOptions {
+  const ttlHours = Number(env.APOLLO_CACHE_TTL_HOURS);
+  return {
+    dir: env.APOLLO_CACHE_DIR || path.join(homedir(), ".cache", "apollo-io-mcp"),
+    ttlMs: (Number.isFinite(ttlHours) && ttlHours >= 0 ? ttlHours : 168) * 3_600_000,
+  };
+}
+
+export function normalizeDomain(domain: string): string {
+  return domain
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, "")
+    .replace(/^www\./, "")
+    .replace(/[/?#].*$/, "");
+}
+
+// Two inputs that Apollo would resolve to the same person must produce the same key.
+// An email identifies a person on its own, so the other fields are ignored when it is present.
+export function personCacheKey(params: {
+  first_name?: string;
+  last_name?: string;
+  email?: string;
+  domain?: string;
+  organization_name?: string;
+}): string {
+  if (params.email) return `email:${params.email.trim().toLowerCase()}`;
+
+  const clean = (value?: string) => (value || "").trim().toLowerCase().replace(/\s+/g, " ");
+  return [
+    "name",
+    clean(params.first_name),
+    clean(params.last_name),
+    params.domain ? normalizeDomain(params.domain) : "",
+    clean(params.organization_name),
+  ].join(":");
+}
+
+// One JSON file per entry, so concurrent server processes never rewrite each other's data.
+export class ResponseCache {
+  private now: () => number;
+
+  constructor(private options: CacheOptions) {
+    this.now = options.now ?? Date.now;
+  }
+
+  get enabled(): boolean {
+    return this.options.ttlMs > 0;
+  }
+
+  private file(namespace: string, key: string): string {
+    const hash = createHash("sha256").update(key).digest("hex");
+    return path.join(this.options.dir, namespace, `${hash}.json`);
+  }
+
+  async get(namespace: string, key: string): Promise<{ value: any; stored_at: number } | undefined> {
+    if (!this.enabled) return undefined;
+
+    let entry: CacheEntry;
+    try {
+      entry = JSON.parse(await readFile(this.file(namespace, key), "utf8"));
+    } catch {
+      return undefined;
+    }
+
+    if (entry.key !== key || this.now() - entry.stored_at > this.options.ttlMs) {
+      await rm(this.file(namespace, key), { force: true });
+      return undefined;
+    }
+    return { value: entry.value, stored_at: entry.stored_at };
+  }
+
+  async set(namespace: string, key: string, value: any): Promise<void> {
+    if (!this.enabled) return;
+
+    const file = this.file(namespace, key);
+    const entry: CacheEntry = { key, stored_at: this.now(), value };
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, JSON.stringify(entry));
+  }
+}
@@ -0,0 +1,31 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+
+// The tool call a piece of work belongs to, so Apollo requests and the credits they cost can be
+// attributed to it without threading it through every client method.
+export interface ToolCall {
+  id: string;
+  tool: string;
+  tenant?: string;
+  // Credits the call's metered Apollo requests have consumed so far.
+  credits: number;
+}
+
+const current = new AsyncLocalStorage<ToolCall>();
+
+export function newCall(tool: string, tenant?: string): ToolCall {
+  return { id: randomUUID(), tool, tenant, credits: 0 };
+}
+
+export function runInCall<T>(call: ToolCall, fn: () => Promise<T>): Promise<T> {
+  return current.run(call, fn);
+}
+
+// For work shared by many calls, such as the API key probe, which no single call should be charged with.
+export function outsideCall<T>(fn: () => T): T {
+  return current.exit(fn);
+}
+
+export function currentCall(): ToolCall | undefined {
+  return current.getStore();
+}
@@ -0,0 +1,33 @@
+export type Capability = "master_key";
+
+// What an API key may do. `undefined` means the probe could not tell, in which case tools stay available
+// and Apollo's own response decides.
+export type Capabilities = Partial<Record<Capability, boolean>>;
+
+export const CAPABILITY_HINTS: Record<Capability, string> = {
+  master_key:
+    "This tool needs an Apollo master API key. In Apollo, go to Settings → Integrations → API, create a key with " +
+    "\"Set as master key\" enabled, and use it as APOLLO_API_KEY (or in your profile).",
+};
+
+export const UNAVAILABLE_TOOL_MODES = ["mark", "hide"] as const;
+export type UnavailableToolMode = (typeof UNAVAILABLE_TOOL_MODES)[number];
+
+export function unavailableToolModeFromEnv(env: NodeJS.ProcessEnv = process.env): UnavailableToolMode {
+  return env.APOLLO_UNAVAILABLE_TOOLS === "hide" ? "hide" : "mark";
+}
+
+// probeMasterKey calls an endpoint only master keys may use. Apollo answers 403 for regular keys; any
+// other failure (bad key, outage) says nothing about the key's scope.
+export async function probeCapabilities(probeMasterKey: () => Promise<unknown>): Promise<Capabilities> {
+  try {
+    await probeMasterKey();
+    return { master_key: true };
+  } catch (error: any) {
+    return error.response?.status === 403 ? { master_key: false } : {};
+  }
+}
+
+export function missingCapabilities(required: Capability[] = [], capabilities: Capabilities = {}): Capability[] {
+  return required.filter((capability) => capabilities[capability] === false);
+}
@@ -0,0 +1,93 @@
+import type { Contact } from "./apollo-types.js";
+import { normalizeDomain } from "./cache.js";
+
+export interface ContactIdentity {
+  first_name?: string;
+  last_name?: string;
+  email?: string;
+  organization_name?: string;
+  website_url?: string;
+}
+
+export interface DuplicateMatch<T = Contact> {
+  contact: T;
+  matched_on: "email" | "name_and_domain";
+}
+
+const clean = (value?: string | null) => (value || "").trim().toLowerCase().replace(/\s+/g, " ");
+
+// Personal mailbox providers; sharing one says nothing about working at the same company.
+const FREE_MAIL_DOMAINS = new Set([
+  "gmail.com",
+  "googlemail.com",
+  "outlook.com",
+  "hotmail.com",
+  "live.com",
+  "msn.com",
+  "yahoo.com",
+  "ymail.com",
+  "aol.com",
+  "icloud.com",
+  "me.com",
+  "mac.com",
+  "proton.me",
+  "protonmail.com",
+  "gmx.com",
+  "gmx.de",
+  "web.de",
+  "mail.com",
+  "yandex.com",
+  "yandex.ru",
+  "qq.com",
+  "163.com",
+  "zoho.com",
+]);
+
+function emailDomain(email?: string | null): string | undefined {
+  const at = email?.lastIndexOf("@") ?? -1;
+  if (at < 0) return undefined;
+  const domain = normalizeDomain(email!.slice(at + 1));
+  return FREE_MAIL_DOMAINS.has(domain) ? undefined : domain;
+}
+
+// What either a new contact's fields or an existing contact can say about the company.
+type CompanyClues = Partial<Pick<Contact, "email" | "organization_name" | "organization" | "account">> & {
+  website_url?: string | null;
+};
+
+function companyKeys(contact: CompanyClues): Set<string> {
+  const keys = new Set<string>();
+  const add = (value?: string | null, normalize = normalizeDomain) => {
+    if (value) keys.add(normalize(value));
+  };
+  add(contact.website_url);
+  add(contact.organization?.primary_domain);
+  add(contact.account?.domain);
+  add(emailDomain(contact.email));
+  add(contact.organization_name, clean);
+  add(contact.organization?.name, clean);
+  add(contact.account?.name, clean);
+  return keys;
+}
+
+// Picks an existing contact that is the same person as identity: first by exact email, then by full
+// name at the same company (matched by domain or company name). Name-only matches are not duplicates,
+// and neither are two records whose emails differ, whatever their names.
+export function findDuplicateContact<T extends Partial<Contact>>(identity: ContactIdentity, contacts: T[]): DuplicateMatch<T> | undefined {
+  const email = clean(identity.email);
+  if (email) {
+    const byEmail = contacts.find((c) => clean(c.email) === email);
+    if (byEmail) return { contact: byEmail, matched_on: "email" };
+  }
+
+  const name = clean(`${identity.first_name || ""} ${identity.last_name || ""}`);
+  const wanted = companyKeys(identity);
+  if (!identity.first_name || !identity.last_name || wanted.size === 0) return undefined;
+
+  const byName = contacts.find((c) => {
+    if (email && clean(c.email) && clean(c.email) !== email) return false;
+    const contactName = clean(c.name || `${c.first_name || ""} ${c.last_name || ""}`);
+    return contactName === name && [...companyKeys(c)].some((key) => wanted.has(key));
+  });
+  return byName ? { contact: byName, matched_on: "name_and_domain" } : undefined;
+}
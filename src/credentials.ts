@@ -0,0 +1,145 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+
+export interface Profile {
+  name: string;
+  apiKey: string;
+  // Bearer token that both admits an HTTP client and pins it to this profile.
+  authToken?: string;
+}
+
+export interface CredentialOptions {
+  apiKey?: string;
+  profile?: string;
+  profiles: Map<string, Profile>;
+}
+
+// Where a request's credentials can come from: HTTP headers, or the auth context the transport attached.
+export interface CredentialSource {
+  headers?: Record<string, string | string[] | undefined>;
+  authInfo?: AuthInfo;
+}
+
+// One Apollo workspace. The id is derived from the API key so that two names for the same key
+// share a client, and so the key itself never ends up in a path.
+export interface Tenant {
+  id: string;
+  apiKey: string;
+  profile?: string;
+}
+
+export class CredentialError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CredentialError";
+  }
+}
+
+export const API_KEY_HEADER = "x-apollo-api-key";
+export const PROFILE_HEADER = "x-apollo-profile";
+
+export function credentialOptionsFromEnv(env: NodeJS.ProcessEnv = process.env) {
+  return {
+    apiKey: env.APOLLO_API_KEY || undefined,
+    profile: env.APOLLO_PROFILE || undefined,
+    profilesFile: env.APOLLO_PROFILES_FILE || undefined,
+  };
+}
+
+// Reads a profiles file of the form
+//   { "profiles": { "sales": { "api_key": "...", "auth_token": "..." }, "ops": { "api_key_env": "OPS_APOLLO_KEY" } } }
+// `api_key_env` keeps the key itself out of the file.
+export async function loadProfiles(file: string, env: NodeJS.ProcessEnv = process.env): Promise<Map<string, Profile>> {
+  const parsed = JSON.parse(await readFile(file, "utf8"));
+  const profiles = new Map<string, Profile>();
+  for (const [name, entry] of Object.entries<any>(parsed.profiles || {})) {
+    const apiKey = entry.api_key || (entry.api_key_env && env[entry.api_key_env]);
+    if (!apiKey) {
+      throw new Error(`Profile ${name} in ${file} has no api_key (or its api_key_env variable is unset)`);
+    }
+    profiles.set(name, { name, apiKey, authToken: entry.auth_token || undefined });
+  }
+  return profiles;
+}
+
+export function tenantFor(apiKey: string, profile?: string): Tenant {
+  return { id: createHash("sha256").update(apiKey).digest("hex").slice(0, 16), apiKey, profile };
+}
+
+function header(headers: CredentialSource["headers"], name: string): string | undefined {
+  const value = headers?.[name];
+  return (Array.isArray(value) ? value[0] : value) || undefined;
+}
+
+function profileTenant(options: CredentialOptions, name: string): Tenant {
+  const profile = options.profiles.get(name);
+  if (!profile) throw new CredentialError(`Unknown Apollo profile: ${name}`);
+  return tenantFor(profile.apiKey, profile.name);
+}
+
+// Precedence: an explicit key header, then the profile the client authenticated as, then a profile
+// header, then the server's default profile and finally its default key.
+export function resolveTenant(source: CredentialSource, options: CredentialOptions): Tenant {
+  const apiKey = header(source.headers, API_KEY_HEADER);
+  if (apiKey) return tenantFor(apiKey);
+
+  const requested = header(source.headers, PROFILE_HEADER);
+  const pinned = source.authInfo?.extra?.profile as string | undefined;
+  if (pinned) {
+    if (requested && requested !== pinned) {
+      throw new CredentialError(`This client is authorized for profile ${pinned} only`);
+    }
+    return profileTenant(options, pinned);
+  }
+  if (requested) return profileTenant(options, requested);
+
+  if (options.profile) return profileTenant(options, options.profile);
+  if (options.apiKey) return tenantFor(options.apiKey);
+
+  throw new CredentialError(
+    `No Apollo API key: set APOLLO_API_KEY or APOLLO_PROFILE, or send the ${API_KEY_HEADER} or ${PROFILE_HEADER} header. ` +
+    "Get your API key from: https://app.apollo.io/#/settings/integrations/api"
+  );
+}
+
+function tokensMatch(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+// Accepts the shared server token as well as any profile's own token; the latter pins the session
+// to that profile through AuthInfo.extra.
+export function bearerAuthenticator(sharedToken: string | undefined, profiles: Map<string, Profile>) {
+  const profileTokens = [...profiles.values()].filter((p) => p.authToken);
+  if (!sharedToken && profileTokens.length === 0) return undefined;
+
+  return (token: string): AuthInfo | undefined => {
+    if (sharedToken && tokensMatch(token, sharedToken)) {
+      return { token, clientId: "shared", scopes: [] };
+    }
+    const profile = profileTokens.find((p) => tokensMatch(token, p.authToken!));
+    return profile && { token, clientId: profile.name, scopes: [], extra: { profile: profile.name } };
+  };
+}
+
+// Keeps one client per tenant so each workspace gets its own rate limiter and cache.
+export class ClientPool<T> {
+  private clients = new Map<string, T>();
+
+  constructor(private create: (tenant: Tenant) => T) {}
+
+  get(tenant: Tenant): T {
+    let client = this.clients.get(tenant.id);
+    if (!client) {
+      client = this.create(tenant);
+      this.clients.set(tenant.id, client);
+    }
+    return client;
+  }
+
+  get size() {
+    return this.clients.size;
+  }
+}
@@ -0,0 +1,58 @@
+// Spreadsheet apps run cells starting with =, @, + or - as formulas, and Apollo data comes from the open
+// web. Prefixing a quote defuses them; "+1 415..." style phone numbers and negative numbers are left alone.
+function defuseFormula(text: string): string {
+  return /^[=@\t\r]|^[+-][^\d\s.]/.test(text) ? `'${text}` : text;
+}
+
+function csvCell(value: unknown, defuse = true): string {
+  if (value === null || value === undefined) return "";
+  const raw = typeof value === "object" ? JSON.stringify(value) : String(value);
+  const text = defuse ? defuseFormula(raw) : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One CSV line, CRLF-terminated as RFC 4180 asks. The first `verbatim` cells are copied without formula
+// defusing, for data that came from the user's own file and must round-trip unchanged.
+export function csvRow(values: unknown[], verbatim = 0): string {
+  return `${values.map((value, i) => csvCell(value, i >= verbatim)).join(",")}\r\n`;
+}
+
+// Parses RFC 4180 CSV: quoted fields may hold commas, quotes ("") and line breaks; a leading BOM and
+// blank lines are ignored.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      if (row.length > 1 || row[0] !== "") rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  if (row.length > 1 || row[0] !== "") rows.push(row);
+  return rows;
+}
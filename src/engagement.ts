@@ -0,0 +1,128 @@
+import type { EmailerMessage, EmailerTouch } from "./apollo-types.js";
+
+export interface TouchCounts {
+  opens: number;
+  clicks: number;
+  replies: number;
+}
+
+// Apollo reports each open, click and reply on a sent email as an "emailer touch" with a touch_type.
+export function countTouches(touches: EmailerTouch[]): TouchCounts {
+  return {
+    opens: touches.filter((t) => t.touch_type === "opened").length,
+    clicks: touches.filter((t) => t.touch_type === "clicked").length,
+    replies: touches.filter((t) => t.touch_type === "replied").length,
+  };
+}
+
+export interface MessageEngagement extends TouchCounts {
+  message_id: string;
+  step_id: string | null;
+  sender: string | null;
+  sent_at: string | null;
+  first_open_at: string | null;
+  seconds_to_first_open: number | null;
+}
+
+export function messageEngagement(message: EmailerMessage, touches: EmailerTouch[]): MessageEngagement {
+  const sentAt = message.completed_at || null;
+  const opens = touches
+    .filter((t) => t.touch_type === "opened" && t.created_at)
+    .map((t) => t.created_at as string)
+    .sort((a, b) => Date.parse(a) - Date.parse(b));
+  const firstOpen = opens[0] || null;
+  const secondsToFirstOpen = sentAt && firstOpen
+    ? Math.max(0, Math.round((Date.parse(firstOpen) - Date.parse(sentAt)) / 1000))
+    : null;
+
+  return {
+    message_id: message.id,
+    step_id: message.emailer_step_id || null,
+    sender: message.from_email || message.email_account_id || null,
+    sent_at: sentAt,
+    ...countTouches(touches),
+    first_open_at: firstOpen,
+    seconds_to_first_open: Number.isNaN(secondsToFirstOpen) ? null : secondsToFirstOpen,
+  };
+}
+
+export interface EngagementAggregate extends TouchCounts {
+  key: string;
+  messages: number;
+  // Messages with at least one open or reply; open and reply rates are these over `messages`.
+  opened: number;
+  replied: number;
+  open_rate: number;
+  reply_rate: number;
+  median_seconds_to_first_open: number | null;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+}
+
+const share = (count: number, total: number) => (total > 0 ? Math.round((count / total) * 10_000) / 10_000 : 0);
+
+export function totalEngagement(rows: MessageEngagement[]): Omit<EngagementAggregate, "key"> {
+  const opened = rows.filter((r) => r.opens > 0).length;
+  const replied = rows.filter((r) => r.replies > 0).length;
+  return {
+    messages: rows.length,
+    opens: rows.reduce((total, r) => total + r.opens, 0),
+    clicks: rows.reduce((total, r) => total + r.clicks, 0),
+    replies: rows.reduce((total, r) => total + r.replies, 0),
+    opened,
+    replied,
+    open_rate: share(opened, rows.length),
+    reply_rate: share(replied, rows.length),
+    median_seconds_to_first_open: median(
+      rows.map((r) => r.seconds_to_first_open).filter((s): s is number => s !== null)
+    ),
+  };
+}
+
+// Groups messages by step, sender or anything else keyOf returns, keeping first-seen order.
+export function aggregateEngagement(
+  rows: MessageEngagement[],
+  keyOf: (row: MessageEngagement) => string | null
+): EngagementAggregate[] {
+  const groups = new Map<string, MessageEngagement[]>();
+  for (const row of rows) {
+    const key = keyOf(row) ?? "unknown";
+    groups.set(key, [...(groups.get(key) || []), row]);
+  }
+  return [...groups].map(([key, group]) => ({ key, ...totalEngagement(group) }));
+}
+
+export interface TimelineDay extends TouchCounts {
+  date: string;
+  sent: number;
+}
+
+// Daily counts of sends and touches, in UTC dates, oldest first.
+export function engagementTimeline(messages: { message: EmailerMessage; touches: EmailerTouch[] }[]): TimelineDay[] {
+  const days = new Map<string, TimelineDay>();
+  const day = (timestamp: string) => {
+    const date = new Date(timestamp).toISOString().slice(0, 10);
+    if (!days.has(date)) days.set(date, { date, sent: 0, opens: 0, clicks: 0, replies: 0 });
+    return days.get(date)!;
+  };
+  const valid = (timestamp: unknown): timestamp is string =>
+    typeof timestamp === "string" && !Number.isNaN(Date.parse(timestamp));
+
+  for (const { message, touches } of messages) {
+    if (valid(message.completed_at)) day(message.completed_at).sent++;
+    for (const touch of touches) {
+      if (!valid(touch.created_at)) continue;
+      const counts = countTouches([touch]);
+      const entry = day(touch.created_at);
+      entry.opens += counts.opens;
+      entry.clicks += counts.clicks;
+      entry.replies += counts.replies;
+    }
+  }
+  return [...days.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
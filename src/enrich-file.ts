@@ -0,0 +1,220 @@
+import { appendFile, mkdir, readFile, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { csvRow, parseCsv } from "./csv.js";
+import { project } from "./projection.js";
+
+export const ENRICH_TARGETS = ["person", "organization"] as const;
+export type EnrichTarget = (typeof ENRICH_TARGETS)[number];
+
+export const MATCH_FIELDS = ["email", "first_name", "last_name", "domain", "organization_name"] as const;
+export type MatchField = (typeof MATCH_FIELDS)[number];
+export type ColumnMapping = Partial<Record<MatchField, string>>;
+
+const TARGET_FIELDS: Record<EnrichTarget, MatchField[]> = {
+  person: [...MATCH_FIELDS],
+  organization: ["domain"],
+};
+
+// Header names recognised without an explicit mapping, compared case-insensitively and ignoring spaces,
+// underscores and dashes.
+const COLUMN_ALIASES: Record<MatchField, string[]> = {
+  email: ["email", "emailaddress", "workemail", "businessemail"],
+  first_name: ["firstname", "givenname", "first"],
+  last_name: ["lastname", "surname", "familyname", "last"],
+  domain: ["domain", "companydomain", "website", "companywebsite", "websiteurl", "url"],
+  organization_name: ["company", "companyname", "organization", "organizationname", "organisation", "account", "accountname"],
+};
+
+export const STATUS_COLUMN = "apollo_match_status";
+export const ERROR_COLUMN = "apollo_error";
+export const APPENDED_PREFIX = "apollo.";
+
+export type MatchStatus = "matched" | "not_found" | "skipped" | "error";
+
+export interface EnrichOutcome {
+  status: "matched" | "not_found" | "error";
+  record?: any;
+  error?: string;
+  // The error concerns the key, quota, budget or network rather than this row.
+  systemic?: boolean;
+}
+
+// Batches in a row where every enrichable row failed before the run gives up, in case an error the
+// enricher could not classify is systemic after all.
+const MAX_FAILED_BATCHES = 3;
+
+const normalizeHeader = (name: string) => name.toLowerCase().replace(/[\s_-]+/g, "");
+
+// Explicit mappings win; other fields are picked up from common header names.
+export function resolveColumnMapping(header: string[], target: EnrichTarget, explicit: ColumnMapping = {}): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  for (const field of TARGET_FIELDS[target]) {
+    const column = explicit[field];
+    if (column !== undefined) {
+      if (!header.includes(column)) {
+        throw new McpError(ErrorCode.InvalidParams, `Column ${column} (mapped to ${field}) is not in the CSV header`);
+      }
+      mapping[field] = column;
+      continue;
+    }
+    const detected = header.find((h) => COLUMN_ALIASES[field].includes(normalizeHeader(h)));
+    if (detected) mapping[field] = detected;
+  }
+
+  const usable = target === "organization"
+    ? mapping.domain
+    : mapping.email || ((mapping.first_name || mapping.last_name) && (mapping.domain || mapping.organization_name));
+  if (!usable) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      target === "organization"
+        ? "No domain column found; map one with column_mapping.domain"
+        : "No email column, or name and company columns, found; map them with column_mapping"
+    );
+  }
+  return mapping;
+}
+
+// The match parameters for one row, or undefined when the row lacks enough to identify anyone.
+export function matchParams(row: Record<string, string>, mapping: ColumnMapping, target: EnrichTarget) {
+  const params: Partial<Record<MatchField, string>> = {};
+  for (const [field, column] of Object.entries(mapping) as [MatchField, string][]) {
+    const value = row[column]?.trim();
+    if (value) params[field] = value;
+  }
+
+  if (target === "organization") return params.domain ? { domain: params.domain } : undefined;
+  const identified = params.email || ((params.first_name || params.last_name) && (params.domain || params.organization_name));
+  return identified ? params : undefined;
+}
+
+export function outputHeader(inputHeader: string[], appendFields: string[]): string[] {
+  return [...inputHeader, STATUS_COLUMN, ERROR_COLUMN, ...appendFields.map((f) => `${APPENDED_PREFIX}${f}`)];
+}
+
+async function exists(file: string) {
+  return stat(file).then(() => true, () => false);
+}
+
+// Counts the rows an earlier, possibly interrupted run already wrote. A half-written last line is cut off
+// so that row is enriched again.
+async function completedRows(output: string, header: string[]): Promise<number> {
+  let text = await readFile(output, "utf8");
+  if (text && !text.endsWith("\n")) {
+    text = text.slice(0, text.lastIndexOf("\n") + 1);
+    await writeFile(output, text, "utf8");
+  }
+
+  const rows = parseCsv(text);
+  if (rows.length === 0) {
+    await writeFile(output, csvRow(header, header.length), "utf8");
+    return 0;
+  }
+  // The header is written verbatim, so parsing it back must give exactly the expected names.
+  if (rows[0].length !== header.length || rows[0].some((name, i) => name !== header[i])) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `${output} exists with different columns; pass restart to overwrite it or choose another output`
+    );
+  }
+  return rows.length - 1;
+}
+
+export interface EnrichFileOptions {
+  input: string;
+  output: string;
+  target: EnrichTarget;
+  columnMapping?: ColumnMapping;
+  appendFields: string[];
+  // Rows to enrich in this call; the rest is left for the next call to resume.
+  maxRows: number;
+  batchSize?: number;
+  restart?: boolean;
+  // Enriches one batch of match parameters, returning an outcome per entry in the same order.
+  enrich: (batch: any[]) => Promise<EnrichOutcome[]>;
+}
+
+export interface EnrichFileResult {
+  output: string;
+  total_rows: number;
+  resumed_from: number;
+  processed: number;
+  remaining: number;
+  counts: Record<MatchStatus, number>;
+  mapping: ColumnMapping;
+  // Set when a systemic error (key, quota, budget, network) or several failed batches in a row ended the run.
+  // Rows from the one that hit a systemic error on are left for the next call.
+  stopped?: string;
+}
+
+export async function enrichFile(options: EnrichFileOptions): Promise<EnrichFileResult> {
+  const [inputHeader, ...rows] = parseCsv(await readFile(options.input, "utf8"));
+  if (!inputHeader) throw new McpError(ErrorCode.InvalidParams, `${options.input} is empty`);
+
+  const mapping = resolveColumnMapping(inputHeader, options.target, options.columnMapping);
+  const header = outputHeader(inputHeader, options.appendFields);
+
+  await mkdir(path.dirname(options.output), { recursive: true });
+  let done = 0;
+  if (!options.restart && (await exists(options.output))) {
+    done = await completedRows(options.output, header);
+  } else {
+    await writeFile(options.output, csvRow(header, header.length), "utf8");
+  }
+
+  const result: EnrichFileResult = {
+    output: options.output,
+    total_rows: rows.length,
+    resumed_from: done,
+    processed: 0,
+    remaining: 0,
+    counts: { matched: 0, not_found: 0, skipped: 0, error: 0 },
+    mapping,
+  };
+
+  const pending = rows.slice(done, done + options.maxRows);
+  const batchSize = options.batchSize ?? 50;
+  let failedBatches = 0;
+  for (let start = 0; start < pending.length && !result.stopped; start += batchSize) {
+    const batch = pending.slice(start, start + batchSize).map((cells) => {
+      const row = Object.fromEntries(inputHeader.map((column, i) => [column, cells[i] ?? ""]));
+      return { cells, params: matchParams(row, mapping, options.target) };
+    });
+
+    const toEnrich = batch.filter((r) => r.params);
+    const outcomes = toEnrich.length > 0 ? await options.enrich(toEnrich.map((r) => r.params)) : [];
+
+    // Rows are written up to the first systemic error, so matches already paid for are kept and the next
+    // call resumes at the row that failed.
+    let next = 0;
+    const lines: string[] = [];
+    for (const { cells, params } of batch) {
+      const outcome: EnrichOutcome | { status: "skipped"; record?: undefined; error?: undefined } =
+        params ? outcomes[next++] : { status: "skipped" };
+      if (outcome.status === "error" && outcome.systemic) {
+        result.stopped = outcome.error || "enrichment failed";
+        break;
+      }
+      result.counts[outcome.status]++;
+      const appended = outcome.record ? project(outcome.record, options.appendFields) : {};
+      // Input cells are the user's data and go back unchanged; only what Apollo supplied is defused.
+      lines.push(csvRow([
+        ...inputHeader.map((_, i) => cells[i] ?? ""),
+        outcome.status,
+        outcome.error ?? "",
+        ...options.appendFields.map((field) => appended[field]),
+      ], inputHeader.length));
+    }
+    await appendFile(options.output, lines.join(""), "utf8");
+    result.processed += lines.length;
+
+    failedBatches = outcomes.length > 0 && outcomes.every((o) => o.status === "error") ? failedBatches + 1 : 0;
+    if (!result.stopped && failedBatches >= MAX_FAILED_BATCHES) {
+      result.stopped = `${MAX_FAILED_BATCHES} batches in a row failed, last with: ${outcomes[0].error || "enrichment failed"}`;
+    }
+  }
+
+  result.remaining = rows.length - done - result.processed;
+  return result;
+}
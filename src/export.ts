@@ -0,0 +1,108 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import path from "node:path";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { csvRow } from "./csv.js";
+import { project } from "./projection.js";
+
+export const EXPORT_FORMATS = ["csv", "jsonl"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_SOURCES = ["people", "organizations"] as const;
+export type ExportSource = (typeof EXPORT_SOURCES)[number];
+
+// Columns written when the caller does not choose any, as paths into Apollo's search records.
+export const DEFAULT_EXPORT_COLUMNS: Record<ExportSource, string[]> = {
+  people: [
+    "id",
+    "first_name",
+    "last_name",
+    "title",
+    "email",
+    "email_status",
+    "linkedin_url",
+    "city",
+    "state",
+    "country",
+    "organization.name",
+    "organization.primary_domain",
+    "organization.industry",
+    "organization.estimated_num_employees",
+    "phone_numbers[0].sanitized_number",
+  ],
+  organizations: [
+    "id",
+    "name",
+    "primary_domain",
+    "website_url",
+    "industry",
+    "estimated_num_employees",
+    "annual_revenue",
+    "founded_year",
+    "city",
+    "state",
+    "country",
+    "linkedin_url",
+    "primary_phone.number",
+  ],
+};
+
+export function exportDirFromEnv(env: NodeJS.ProcessEnv = process.env): string {
+  return env.APOLLO_EXPORT_DIR || path.join(homedir(), "apollo-exports");
+}
+
+// Relative paths resolve against the data directory. When confined (shared HTTP deployments), a path
+// must also stay inside it, so remote clients cannot read or write elsewhere on the server.
+export function resolveDataPath(dataDir: string, file: string, confine: boolean): string {
+  const root = path.resolve(dataDir);
+  const resolved = path.resolve(root, file);
+  if (confine && resolved !== root && !resolved.startsWith(root + path.sep)) {
+    throw new McpError(ErrorCode.InvalidParams, `${file} is outside the data directory ${root}`);
+  }
+  return resolved;
+}
+
+export function toCsv(records: any[], columns: string[]): string {
+  return csvRow(columns) + records.map((record) => {
+    const row = project(record, columns);
+    return csvRow(columns.map((column) => row[column]));
+  }).join("");
+}
+
+// Without columns every record is written whole, nested fields included.
+export function toJsonl(records: any[], columns?: string[]): string {
+  return records.map((record) => `${JSON.stringify(columns ? project(record, columns) : record)}\n`).join("");
+}
+
+// Names are reduced to a plain file name so a tool argument can never point outside the export directory.
+export function exportFileName(source: ExportSource, format: ExportFormat, name?: string, now = new Date()): string {
+  const base = name
+    ? path.basename(name).replace(/\.(csv|jsonl)$/i, "").replace(/[^A-Za-z0-9._-]+/g, "-").replace(/^[.-]+/, "")
+    : "";
+  const stamp = now.toISOString().replace(/[:.]/g, "-");
+  return `${base || `apollo-${source}-${stamp}`}.${format}`;
+}
+
+export interface ExportResult {
+  path: string;
+  format: ExportFormat;
+  rows: number;
+  columns: string[] | null;
+}
+
+export async function writeExport(options: {
+  dir: string;
+  source: ExportSource;
+  format: ExportFormat;
+  records: any[];
+  columns?: string[];
+  name?: string;
+}): Promise<ExportResult> {
+  const columns = options.columns ?? (options.format === "csv" ? DEFAULT_EXPORT_COLUMNS[options.source] : undefined);
+  const file = path.join(options.dir, exportFileName(options.source, options.format, options.name));
+  const contents = options.format === "csv" ? toCsv(options.records, columns!) : toJsonl(options.records, columns);
+
+  await mkdir(options.dir, { recursive: true });
+  await writeFile(file, contents, "utf8");
+  return { path: file, format: options.format, rows: options.records.length, columns: columns ?? null };
+}
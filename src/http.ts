@@ -0,0 +1,149 @@
+import { randomUUID } from "node:crypto";
+import { IncomingMessage, Server as HttpServer, ServerResponse, createServer } from "node:http";
+import { parseArgs } from "node:util";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+export type TransportMode = "stdio" | "http";
+
+export interface TransportOptions {
+  mode: TransportMode;
+  port: number;
+  host: string;
+  // Shared token clients send as `Authorization: Bearer <authToken>`.
+  authToken?: string;
+}
+
+// CLI flags win over the environment: `--http`, `--port 8080`, `--host 0.0.0.0`.
+export function transportOptionsFromEnv(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): TransportOptions {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      http: { type: "boolean" },
+      stdio: { type: "boolean" },
+      port: { type: "string" },
+      host: { type: "string" },
+    },
+    strict: false,
+  });
+
+  const envMode = env.APOLLO_MCP_TRANSPORT === "http" ? "http" : "stdio";
+  const mode: TransportMode = values.http ? "http" : values.stdio ? "stdio" : envMode;
+  const port = Number(values.port ?? env.APOLLO_MCP_PORT);
+  return {
+    mode,
+    port: Number.isInteger(port) && port >= 0 ? port : 3000,
+    host: (values.host as string | undefined) || env.APOLLO_MCP_HOST || "127.0.0.1",
+    authToken: env.APOLLO_MCP_AUTH_TOKEN || undefined,
+  };
+}
+
+export interface HttpServerOptions {
+  port: number;
+  host: string;
+  // Maps a bearer token to the client's auth context; when set, requests without a known token get 401.
+  authenticate?: (token: string) => AuthInfo | undefined;
+}
+
+function bearerToken(req: IncomingMessage): string | undefined {
+  const [scheme, token] = (req.headers.authorization || "").split(" ");
+  return scheme?.toLowerCase() === "bearer" && token ? token : undefined;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers }).end(JSON.stringify(body));
+}
+
+// JSON-RPC error envelope, as the streamable HTTP transport itself uses for rejected requests.
+function sendRpcError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}) {
+  sendJson(res, status, { jsonrpc: "2.0", error: { code: -32000, message }, id: null }, headers);
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const raw = Buffer.concat(chunks).toString("utf8");
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+// Serves MCP over streamable HTTP at /mcp (POST for requests, GET for the SSE stream, DELETE to end
+// a session) and a liveness probe at /health. Each session gets its own Server from createMcpServer,
+// since an MCP Server instance is bound to a single transport. The auth context is attached to every
+// request, so handlers see it as `extra.authInfo`.
+export function startHttpServer(createMcpServer: () => Server, options: HttpServerOptions): Promise<HttpServer> {
+  const sessions = new Map<string, StreamableHTTPServerTransport>();
+  const owners = new Map<string, string | undefined>();
+
+  const httpServer = createServer(async (req, res) => {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+
+    if (pathname === "/health") {
+      if (req.method !== "GET") return sendJson(res, 405, { error: "Method not allowed" }, { Allow: "GET" });
+      return sendJson(res, 200, { status: "ok", sessions: sessions.size });
+    }
+
+    if (pathname !== "/mcp") return sendJson(res, 404, { error: "Not found" });
+
+    let auth: AuthInfo | undefined;
+    if (options.authenticate) {
+      const token = bearerToken(req);
+      auth = token ? options.authenticate(token) : undefined;
+      if (!auth) return sendRpcError(res, 401, "Unauthorized", { "WWW-Authenticate": "Bearer" });
+    }
+
+    try {
+      const body = req.method === "POST" ? await readJson(req) : undefined;
+      const sessionId = req.headers["mcp-session-id"] as string | undefined;
+      let transport = sessionId ? sessions.get(sessionId) : undefined;
+      // A session stays with the client that opened it; another token cannot borrow its credentials.
+      if (transport && owners.get(sessionId!) !== auth?.clientId) transport = undefined;
+
+      if (!transport) {
+        if (sessionId) return sendRpcError(res, 404, "Session not found");
+        if (req.method !== "POST" || !isInitializeRequest(body)) {
+          return sendRpcError(res, 400, "Bad Request: no valid session ID provided");
+        }
+
+        const created = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (id) => {
+            sessions.set(id, created);
+            owners.set(id, auth?.clientId);
+          },
+        });
+        created.onclose = () => {
+          if (created.sessionId) {
+            sessions.delete(created.sessionId);
+            owners.delete(created.sessionId);
+          }
+        };
+        await createMcpServer().connect(created);
+        transport = created;
+      }
+
+      await transport.handleRequest(Object.assign(req, { auth }), res, body);
+    } catch (error: any) {
+      if (res.headersSent) return;
+      if (error instanceof SyntaxError) return sendJson(res, 400, { jsonrpc: "2.0", error: { code: -32700, message: "Parse error" }, id: null });
+      sendRpcError(res, 500, error.message || "Internal server error");
+    }
+  });
+
+  httpServer.on("close", () => {
+    for (const transport of sessions.values()) void transport.close();
+    sessions.clear();
+  });
+
+  return new Promise((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve(httpServer);
+    });
+  });
+}
@@ -0,0 +1,176 @@
+import { readFile } from "node:fs/promises";
+import { z } from "zod";
+import { getPath } from "./projection.js";
+
+// Facts a rule can test, read the same way from people and organizations, whether raw Apollo records
+// or the summaries the search and enrich tools return.
+export const LEAD_FACTS = [
+  "industry",
+  "employees",
+  "revenue",
+  "founded_year",
+  "country",
+  "state",
+  "city",
+  "technologies",
+  "keywords",
+  "title",
+  "seniority",
+  "departments",
+] as const;
+export type LeadFact = (typeof LEAD_FACTS)[number];
+
+const scalar = z.union([z.string(), z.number(), z.boolean()]);
+
+const MAX_PATTERN_LENGTH = 200;
+
+// Patterns arrive from tool arguments, and in HTTP mode one client's slow pattern would stall every other
+// client, so they are wildcards rather than regular expressions: * stands for any run of characters and
+// everything else is literal. Matching looks for each literal piece in turn, which takes linear time.
+export function matchesPattern(pattern: string, value: string): boolean {
+  const text = value.toLowerCase();
+  let from = 0;
+  for (const piece of pattern.toLowerCase().split("*")) {
+    const at = text.indexOf(piece, from);
+    if (at < 0) return false;
+    from = at + piece.length;
+  }
+  return true;
+}
+
+export const IcpRuleSchema = z.object({
+  name: z.string().describe("Shown in explanations"),
+  field: z.enum(LEAD_FACTS).optional().describe("Lead fact to test"),
+  path: z.string().optional().describe("Raw record path to test instead of a fact, e.g. 'organization.funding_stage'"),
+  weight: z.number().describe("Points added when the rule matches; negative weights penalize"),
+  equals: scalar.optional(),
+  in: z.array(scalar).min(1).optional().describe("Matches when the value (or any array element) is one of these"),
+  includes_all: z.array(z.string()).min(1).optional().describe("Array values must contain every one of these"),
+  matches: z.array(z.string().min(1).max(MAX_PATTERN_LENGTH)).min(1).optional().describe(
+    "Case-insensitive text patterns found anywhere in the value, where * stands for any run of characters; any may match"
+  ),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  exists: z.boolean().optional(),
+}).refine((rule) => (rule.field === undefined) !== (rule.path === undefined), {
+  message: "Each rule needs exactly one of field or path",
+}).refine(
+  (rule) => ["equals", "in", "includes_all", "matches", "min", "max", "exists"].some((k) => (rule as any)[k] !== undefined),
+  { message: "Each rule needs a condition: equals, in, includes_all, matches, min, max or exists" }
+);
+
+export const IcpConfigSchema = z.object({
+  name: z.string().optional().default("ICP"),
+  rules: z.array(IcpRuleSchema).min(1),
+  // Tiers by normalized score, highest threshold first wins.
+  tiers: z.array(z.object({ name: z.string(), min_score: z.number().min(0).max(100) })).optional().default([
+    { name: "A", min_score: 75 },
+    { name: "B", min_score: 50 },
+    { name: "C", min_score: 25 },
+    { name: "D", min_score: 0 },
+  ]),
+});
+
+export type IcpRule = z.output<typeof IcpRuleSchema>;
+export type IcpConfig = z.output<typeof IcpConfigSchema>;
+
+export function icpFileFromEnv(env: NodeJS.ProcessEnv = process.env): string | undefined {
+  return env.APOLLO_ICP_FILE || undefined;
+}
+
+// Read on every call so edits to the file apply without restarting the server.
+export async function loadIcp(file: string): Promise<IcpConfig> {
+  const parsed = IcpConfigSchema.safeParse(JSON.parse(await readFile(file, "utf8")));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    throw new Error(`ICP file ${file} is invalid: ${issues.join("; ")}`);
+  }
+  return parsed.data;
+}
+
+const names = (values: any[] | undefined) =>
+  values?.map((v) => (typeof v === "string" ? v : v?.name ?? v?.uid)).filter(Boolean);
+
+export function leadFacts(record: any): Record<LeadFact, unknown> {
+  const org = record.organization ?? record.account ?? record;
+  const location = (key: "country" | "state" | "city") => record[key] ?? org[key];
+  return {
+    industry: org.industry,
+    employees: org.estimated_num_employees ?? org.employees,
+    revenue: org.annual_revenue ?? org.organization_revenue,
+    founded_year: org.founded_year ?? org.founded,
+    country: location("country"),
+    state: location("state"),
+    city: location("city"),
+    technologies: names(org.current_technologies ?? org.technology_names ?? org.technologies),
+    keywords: org.keywords,
+    title: record.title,
+    seniority: record.seniority,
+    departments: record.departments,
+  };
+}
+
+const lower = (value: unknown) => (typeof value === "string" ? value.toLowerCase() : value);
+
+function ruleMatches(rule: IcpRule, value: unknown): boolean {
+  const present = value !== undefined && value !== null && value !== "" && !(Array.isArray(value) && value.length === 0);
+  if (rule.exists !== undefined && rule.exists !== present) return false;
+  if (!present) return rule.exists === false;
+
+  const values = (Array.isArray(value) ? value : [value]).map(lower);
+  if (rule.equals !== undefined && !values.includes(lower(rule.equals))) return false;
+  if (rule.in && !rule.in.some((candidate) => values.includes(lower(candidate)))) return false;
+  if (rule.includes_all && !rule.includes_all.every((candidate) => values.includes(candidate.toLowerCase()))) return false;
+  if (rule.matches && !rule.matches.some((pattern) => values.some((v) => matchesPattern(pattern, String(v))))) return false;
+  if (rule.min !== undefined || rule.max !== undefined) {
+    const number = Number(values[0]);
+    if (!Number.isFinite(number)) return false;
+    if (rule.min !== undefined && number < rule.min) return false;
+    if (rule.max !== undefined && number > rule.max) return false;
+  }
+  return true;
+}
+
+export interface LeadScore {
+  id: string | null;
+  name: string | null;
+  score: number;
+  // Score as a share of the points the positive rules could give, clamped to 0-100.
+  normalized_score: number;
+  tier: string;
+  matched: { rule: string; weight: number; value: unknown }[];
+  unmatched: string[];
+}
+
+export function scoreLead(record: any, icp: IcpConfig): LeadScore {
+  const facts = leadFacts(record);
+  const maxScore = icp.rules.reduce((total, rule) => total + Math.max(0, rule.weight), 0);
+  const matched: LeadScore["matched"] = [];
+  const unmatched: string[] = [];
+
+  for (const rule of icp.rules) {
+    const value = rule.field ? facts[rule.field] : getPath(record, rule.path!);
+    if (ruleMatches(rule, value)) matched.push({ rule: rule.name, weight: rule.weight, value: value ?? null });
+    else unmatched.push(rule.name);
+  }
+
+  const score = matched.reduce((total, m) => total + m.weight, 0);
+  const normalized = maxScore > 0 ? Math.round(Math.min(100, Math.max(0, (score / maxScore) * 100))) : 0;
+  const tiers = [...icp.tiers].sort((a, b) => b.min_score - a.min_score);
+  // Records may come straight from the caller, so ids and names are not necessarily strings.
+  const text = (value: unknown) => (value === undefined || value === null || value === "" ? null : String(value));
+  return {
+    id: text(record.id),
+    name: text(record.name) ?? text([record.first_name, record.last_name].filter(Boolean).join(" ")),
+    score,
+    normalized_score: normalized,
+    tier: tiers.find((t) => normalized >= t.min_score)?.name ?? "unranked",
+    matched,
+    unmatched,
+  };
+}
+
+// Highest score first; ties keep their input order.
+export function scoreLeads(records: any[], icp: IcpConfig): LeadScore[] {
+  return records.map((record) => scoreLead(record, icp)).sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,120 @@
+import { z } from "zod";
+
+// Shapes of the structuredContent tools return. They mirror the summary objects built in the tool
+// formatters; Apollo leaves many fields null, so almost everything is nullish.
+const text = z.string().nullish();
+const count = z.number().nullish();
+
+export const PaginationOutput = z.object({
+  page: count,
+  per_page: count,
+  total_entries: count,
+  total_pages: count,
+  pages_fetched: count.describe("Pages fetched in multi-page mode"),
+  credits_consumed: count.describe("Credits Apollo reported as consumed in multi-page mode"),
+  duplicates_skipped: count,
+});
+
+export const PersonOutput = z.object({
+  id: text,
+  name: text,
+  title: text,
+  company: text,
+  location: text,
+  email: text,
+  phone: text,
+  linkedin: text,
+});
+
+export const OrganizationOutput = z.object({
+  id: text,
+  name: text,
+  domain: text,
+  industry: text,
+  employees: count,
+  location: text,
+  description: text,
+  founded: count,
+  linkedin: text,
+  technologies: z.array(z.any()).nullish(),
+});
+
+export const SequenceOutput = z.object({
+  id: z.string(),
+  name: text,
+  active: z.boolean().nullish(),
+  num_steps: count,
+  stats: z.object({
+    sent: count,
+    bounced: count,
+    replied: count,
+    interested: count,
+    opt_out: count,
+  }),
+});
+
+export const SequenceStatsOutput = z.object({
+  id: z.string(),
+  name: text,
+  active: z.boolean(),
+  contacted: z.number(),
+  bounced: z.number(),
+  replied: z.number(),
+  interested: z.number(),
+  opt_out: z.number(),
+  bounce_rate: z.number().nullable(),
+  reply_rate: z.number().nullable(),
+  interested_rate: z.number().nullable(),
+  opt_out_rate: z.number().nullable(),
+});
+
+export const EmailAccountOutput = z.object({
+  id: z.string(),
+  email: text,
+  active: z.boolean().nullish(),
+  type: text,
+});
+
+export const ActivityOutput = z.object({
+  type: text,
+  created_at: text,
+  user_agent: text,
+});
+
+export const EngagementAggregateOutput = z.object({
+  key: z.string(),
+  messages: z.number(),
+  opens: z.number(),
+  clicks: z.number(),
+  replies: z.number(),
+  opened: z.number(),
+  replied: z.number(),
+  open_rate: z.number(),
+  reply_rate: z.number(),
+  median_seconds_to_first_open: z.number().nullable(),
+});
+
+export const ContactOutput = z.object({
+  id: text,
+  name: text,
+  title: text,
+  company: text,
+  email: text,
+  stage_id: text,
+  owner_id: text,
+});
+
+export const AccountOutput = z.object({
+  id: text,
+  name: text,
+  domain: text,
+  industry: text,
+  employees: count,
+  stage_id: text,
+  owner_id: text,
+});
+
+export const CacheOutput = z.object({
+  hit: z.boolean(),
+  stored_at: text,
+});
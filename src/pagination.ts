@@ -0,0 +1,69 @@
+// Apollo refuses to page past 50,000 records (500 pages of 100), so never walk further than that.
+export const MAX_SEARCH_PAGES = 500;
+export const MAX_PER_PAGE = 100;
+
+export interface CollectPagesOptions {
+  key: string;
+  startPage?: number;
+  perPage?: number;
+  maxResults?: number;
+  maxPages?: number;
+}
+
+export interface CollectedPages<T = any> {
+  records: T[];
+  pages_fetched: number;
+  credits_consumed: number;
+  duplicates_skipped: number;
+  total_entries: number;
+  total_pages: number;
+}
+
+// Walks a paginated Apollo search until maxResults unique records are collected or the last page is reached.
+// Records are de-duplicated by their Apollo id; records without an id are always kept.
+export async function collectPages<T = any>(
+  fetchPage: (page: number, perPage: number) => Promise<any>,
+  options: CollectPagesOptions
+): Promise<CollectedPages<T>> {
+  const perPage = Math.min(options.perPage ?? MAX_PER_PAGE, MAX_PER_PAGE);
+  const maxPages = Math.min(options.maxPages ?? MAX_SEARCH_PAGES, MAX_SEARCH_PAGES);
+  const seen = new Set<string>();
+  const collected: CollectedPages<T> = {
+    records: [],
+    pages_fetched: 0,
+    credits_consumed: 0,
+    duplicates_skipped: 0,
+    total_entries: 0,
+    total_pages: 0,
+  };
+
+  let page = options.startPage ?? 1;
+  while (collected.pages_fetched < maxPages) {
+    const data = await fetchPage(page, perPage);
+    collected.pages_fetched++;
+    collected.credits_consumed += Number(data.credits_consumed) || 0;
+    collected.total_entries = data.pagination?.total_entries ?? collected.total_entries;
+    collected.total_pages = data.pagination?.total_pages ?? page;
+
+    const batch: any[] = data[options.key] || [];
+    for (const record of batch) {
+      if (record.id) {
+        if (seen.has(record.id)) {
+          collected.duplicates_skipped++;
+          continue;
+        }
+        seen.add(record.id);
+      }
+      collected.records.push(record);
+    }
+
+    if (options.maxResults && collected.records.length >= options.maxResults) {
+      collected.records = collected.records.slice(0, options.maxResults);
+      break;
+    }
+    if (batch.length === 0 || page >= collected.total_pages) break;
+    page++;
+  }
+
+  return collected;
+}
@@ -0,0 +1,80 @@
+import { readFile } from "node:fs/promises";
+import { z } from "zod";
+
+// What a tool does to the Apollo workspace. Writes change records; outreach enrolls people in sequences
+// or changes their enrollment, which can send email on the user's behalf.
+export const TOOL_EFFECTS = ["read", "write", "outreach"] as const;
+export type ToolEffect = (typeof TOOL_EFFECTS)[number];
+
+// allow runs the tool, confirm asks the user first (through MCP elicitation), block refuses it.
+export const TOOL_ACCESS = ["allow", "confirm", "block"] as const;
+export type ToolAccess = (typeof TOOL_ACCESS)[number];
+
+const DEFAULT_ACCESS: Record<ToolEffect, ToolAccess> = { read: "allow", write: "confirm", outreach: "confirm" };
+
+export const PolicyFileSchema = z.object({
+  read_only: z.boolean().optional().describe("Block every write and outreach tool, whatever else the policy says"),
+  defaults: z.object({
+    read: z.enum(TOOL_ACCESS).optional(),
+    write: z.enum(TOOL_ACCESS).optional(),
+    outreach: z.enum(TOOL_ACCESS).optional(),
+  }).strict().optional().describe("Access per kind of tool"),
+  tools: z.record(z.enum(TOOL_ACCESS)).optional().describe("Access per tool name; overrides defaults"),
+}).strict();
+
+export type PolicyFile = z.output<typeof PolicyFileSchema>;
+
+export function policyOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): { file?: string; readOnly: boolean } {
+  return {
+    file: env.APOLLO_POLICY_FILE || undefined,
+    readOnly: ["1", "true", "yes"].includes((env.APOLLO_READ_ONLY ?? "").toLowerCase()),
+  };
+}
+
+export async function loadPolicy(options: { file?: string; readOnly?: boolean }): Promise<ToolPolicy> {
+  let config: PolicyFile = {};
+  if (options.file) {
+    const parsed = PolicyFileSchema.safeParse(JSON.parse(await readFile(options.file, "utf8")));
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+      throw new Error(`Policy file ${options.file} is invalid: ${issues.join("; ")}`);
+    }
+    config = parsed.data;
+  }
+  return new ToolPolicy({ ...config, read_only: options.readOnly || config.read_only });
+}
+
+// Decides, per tool, whether a call may run. Read-only mode wins over everything; otherwise an entry for
+// the tool wins over the default for its effect.
+export class ToolPolicy {
+  constructor(private config: PolicyFile = {}) {}
+
+  get readOnly(): boolean {
+    return this.config.read_only ?? false;
+  }
+
+  // Tool names the policy mentions, so callers can reject typos that would silently leave a tool unguarded.
+  get toolNames(): string[] {
+    return Object.keys(this.config.tools ?? {});
+  }
+
+  access(name: string, effect: ToolEffect = "read"): ToolAccess {
+    if (this.readOnly && effect !== "read") return "block";
+    return this.config.tools?.[name] ?? this.config.defaults?.[effect] ?? DEFAULT_ACCESS[effect];
+  }
+
+  blockedReason(name: string, effect: ToolEffect = "read"): string {
+    return this.readOnly && effect !== "read"
+      ? `${name} is blocked: the server is in read-only mode (APOLLO_READ_ONLY or read_only in APOLLO_POLICY_FILE).`
+      : `${name} is blocked by the server's tool policy (APOLLO_POLICY_FILE).`;
+  }
+}
+
+export function confirmationMessage(name: string, effect: ToolEffect, args: unknown): string {
+  const what = effect === "outreach"
+    ? "It enrolls people in a sequence or changes their enrollment, which can send email on your behalf."
+    : effect === "write"
+      ? "It changes records in your Apollo workspace."
+      : "The server's tool policy asks for confirmation before it runs.";
+  return `Allow ${name}? ${what}\n\nArguments:\n${JSON.stringify(args, null, 2)}`;
+}
@@ -0,0 +1,19 @@
+// Reads a dotted path such as "organization.name" or "phone_numbers[0].sanitized_number".
+export function getPath(value: any, path: string): any {
+  const segments = path.match(/[^.[\]]+/g) || [];
+  let current = value;
+  for (const segment of segments) {
+    if (current == null) return undefined;
+    current = current[/^\d+$/.test(segment) ? Number(segment) : segment];
+  }
+  return current;
+}
+
+// Keeps only the requested paths of record, keyed by the path as written.
+export function project(record: any, fields: string[]): Record<string, unknown> {
+  const projected: Record<string, unknown> = {};
+  for (const field of fields) {
+    projected[field] = getPath(record, field) ?? null;
+  }
+  return projected;
+}
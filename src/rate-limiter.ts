@@ -0,0 +1,164 @@
+export type RateLimitWindow = "minute" | "hour" | "day";
+
+const WINDOW_MS: Record<RateLimitWindow, number> = {
+  minute: 60_000,
+  hour: 3_600_000,
+  day: 86_400_000,
+};
+
+// Apollo reports each quota as a limit plus either the requests left or the usage so far.
+const WINDOW_HEADERS: Record<RateLimitWindow, { limit: string; left: string; usage: string }> = {
+  minute: { limit: "x-rate-limit-minute", left: "x-minute-requests-left", usage: "x-minute-usage" },
+  hour: { limit: "x-rate-limit-hourly", left: "x-hourly-requests-left", usage: "x-hourly-usage" },
+  day: { limit: "x-rate-limit-24-hour", left: "x-24-hour-requests-left", usage: "x-24-hour-usage" },
+};
+
+interface Bucket {
+  limit: number;
+  tokens: number;
+  updatedAt: number;
+}
+
+interface EndpointState {
+  buckets: Partial<Record<RateLimitWindow, Bucket>>;
+  queue: Promise<void>;
+  queued: number;
+}
+
+export interface RateLimitStatus {
+  endpoint: string;
+  queued: number;
+  windows: Partial<Record<RateLimitWindow, { limit: number; remaining: number; full_in_seconds: number }>>;
+}
+
+export interface RateLimiterOptions {
+  maxWaitMs: number;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<unknown>;
+}
+
+export class RateLimitExceededError extends Error {
+  constructor(public endpoint: string, public window: RateLimitWindow, public waitMs: number) {
+    super(`Apollo ${window} quota for ${endpoint} is used up; it frees up in ${Math.ceil(waitMs / 1000)}s`);
+    this.name = "RateLimitExceededError";
+  }
+}
+
+// Collapses ids in paths so /emailer_messages/abc123/activities shares a bucket across messages.
+export function normalizeEndpoint(url: string): string {
+  const path = url.split("?")[0];
+  return path
+    .split("/")
+    .map((segment) => (/^[0-9a-f]{16,}$/i.test(segment) || /^\d+$/.test(segment) ? ":id" : segment))
+    .join("/");
+}
+
+function header(headers: any, name: string): number | undefined {
+  if (!headers) return undefined;
+  const value = typeof headers.get === "function" ? headers.get(name) : headers[name];
+  if (value == null || value === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+// Token bucket per endpoint and window. Limits are unknown (unlimited) until Apollo's response
+// headers reveal them; every response then re-syncs the local model with what Apollo reports.
+export class RateLimiter {
+  private endpoints = new Map<string, EndpointState>();
+  private now: () => number;
+  private sleep: (ms: number) => Promise<unknown>;
+
+  constructor(private options: RateLimiterOptions) {
+    this.now = options.now ?? Date.now;
+    this.sleep = options.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+  }
+
+  private state(endpoint: string): EndpointState {
+    let state = this.endpoints.get(endpoint);
+    if (!state) {
+      state = { buckets: {}, queue: Promise.resolve(), queued: 0 };
+      this.endpoints.set(endpoint, state);
+    }
+    return state;
+  }
+
+  private refill(bucket: Bucket, window: RateLimitWindow) {
+    const now = this.now();
+    const rate = bucket.limit / WINDOW_MS[window];
+    bucket.tokens = Math.min(bucket.limit, bucket.tokens + (now - bucket.updatedAt) * rate);
+    bucket.updatedAt = now;
+  }
+
+  private waitFor(state: EndpointState): { window: RateLimitWindow; ms: number } | undefined {
+    let longest: { window: RateLimitWindow; ms: number } | undefined;
+    for (const [window, bucket] of Object.entries(state.buckets) as [RateLimitWindow, Bucket][]) {
+      this.refill(bucket, window);
+      if (bucket.tokens >= 1) continue;
+      const ms = Math.ceil(((1 - bucket.tokens) * WINDOW_MS[window]) / bucket.limit);
+      if (!longest || ms > longest.ms) longest = { window, ms };
+    }
+    return longest;
+  }
+
+  // Resolves once a request to endpoint fits in every known quota. Callers queue in FIFO order;
+  // if the wait would exceed maxWaitMs the call is rejected instead of hanging the tool call.
+  async acquire(endpoint: string): Promise<void> {
+    const state = this.state(endpoint);
+    const previous = state.queue;
+    let release!: () => void;
+    state.queue = new Promise((resolve) => (release = resolve));
+    state.queued++;
+
+    try {
+      await previous;
+      for (;;) {
+        const wait = this.waitFor(state);
+        if (!wait) break;
+        if (wait.ms > this.options.maxWaitMs) {
+          throw new RateLimitExceededError(endpoint, wait.window, wait.ms);
+        }
+        await this.sleep(wait.ms);
+      }
+      for (const bucket of Object.values(state.buckets)) {
+        bucket!.tokens -= 1;
+      }
+    } finally {
+      state.queued--;
+      release();
+    }
+  }
+
+  update(endpoint: string, headers: any) {
+    const state = this.state(endpoint);
+    for (const window of Object.keys(WINDOW_HEADERS) as RateLimitWindow[]) {
+      const names = WINDOW_HEADERS[window];
+      const limit = header(headers, names.limit);
+      if (limit === undefined || limit <= 0) continue;
+
+      const usage = header(headers, names.usage);
+      const left = header(headers, names.left) ?? (usage !== undefined ? limit - usage : undefined);
+      const bucket = state.buckets[window] ?? { limit, tokens: limit, updatedAt: this.now() };
+      this.refill(bucket, window);
+      bucket.limit = limit;
+      bucket.tokens = left !== undefined ? Math.max(0, Math.min(left, limit)) : Math.min(bucket.tokens, limit);
+      state.buckets[window] = bucket;
+    }
+  }
+
+  status(endpoint?: string): RateLimitStatus[] {
+    const entries = [...this.endpoints.entries()].filter(([name]) => !endpoint || name === normalizeEndpoint(endpoint));
+
+    return entries.map(([name, state]) => {
+      const windows: RateLimitStatus["windows"] = {};
+      for (const [window, bucket] of Object.entries(state.buckets) as [RateLimitWindow, Bucket][]) {
+        this.refill(bucket, window);
+        windows[window] = {
+          limit: bucket.limit,
+          remaining: Math.floor(bucket.tokens),
+          full_in_seconds: Math.ceil(((bucket.limit - bucket.tokens) * WINDOW_MS[window]) / bucket.limit / 1000),
+        };
+      }
+      return { endpoint: name, queued: state.queued, windows };
+    });
+  }
+}
@@ -0,0 +1,165 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { project } from "./projection.js";
+import { CAPABILITY_HINTS, Capabilities, Capability, UnavailableToolMode, missingCapabilities } from "./capabilities.js";
+import { ToolEffect, ToolPolicy } from "./policy.js";
+
+export interface ToolOutput {
+  // Prose shown first, e.g. "Found 12 people\n\nResults:".
+  text: string;
+  // Compact view of the result, rendered as JSON right after the text.
+  summary?: unknown;
+  // Raw Apollo payload, rendered under "Full data".
+  data?: unknown;
+  // Raw records that a `fields` projection applies to, e.g. the people of a search page.
+  records?: unknown[];
+}
+
+export interface ToolDefinition<
+  C,
+  S extends z.ZodTypeAny = z.ZodTypeAny,
+  R = any,
+  O extends z.AnyZodObject = z.AnyZodObject,
+> {
+  name: string;
+  description: string;
+  schema: S;
+  // Shape of structuredContent; advertised to clients as the tool's outputSchema.
+  outputSchema: O;
+  // What the API key must be allowed to do for this tool to work.
+  requires?: Capability[];
+  // What the tool does to the workspace; anything but "read" needs the user's confirmation by default.
+  effect?: ToolEffect;
+  // Calls for which this holds change nothing, such as a dry run, and are authorized as reads.
+  readsOnly?: (args: z.output<S>) => boolean;
+  handler: (args: z.output<S>, context: C) => Promise<R>;
+  format: (result: R, args: z.output<S>) => ToolOutput & { structured: z.input<O> };
+}
+
+export const RESPONSE_FORMATS = ["summary", "fields", "full"] as const;
+export type ResponseFormat = (typeof RESPONSE_FORMATS)[number];
+
+// Accepted by every tool on top of its own arguments.
+export const ResponseOptionsSchema = z.object({
+  response_format: z.enum(RESPONSE_FORMATS).optional().describe(
+    "summary: compact overview (server default unless configured otherwise); fields: only the paths listed in `fields`; full: overview plus the raw Apollo payload"
+  ),
+  fields: z.array(z.string()).min(1).optional().describe(
+    "Paths to keep from each record, e.g. ['name', 'organization.name', 'phone_numbers[0].sanitized_number']. Implies response_format fields"
+  ),
+});
+
+export type ResponseOptions = z.output<typeof ResponseOptionsSchema>;
+
+export function responseFormatFromEnv(env: NodeJS.ProcessEnv = process.env): ResponseFormat {
+  return env.APOLLO_RESPONSE_FORMAT === "full" ? "full" : "summary";
+}
+
+export function toJsonSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+  // The cast sidesteps zod-to-json-schema's deeply recursive generics, which tsc gives up on.
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema as any, {
+    $refStrategy: "none",
+    removeAdditionalStrategy: "strict",
+  }) as Record<string, unknown>;
+  return jsonSchema;
+}
+
+export function renderOutput(output: ToolOutput, options: ResponseOptions = {}, defaultFormat: ResponseFormat = "summary"): string {
+  const format = options.fields ? "fields" : options.response_format ?? defaultFormat;
+
+  if (format === "fields") {
+    if (!options.fields) {
+      throw new McpError(ErrorCode.InvalidParams, "response_format fields requires a fields list");
+    }
+    const records = output.records ??
+      (Array.isArray(output.summary) ? output.summary : output.summary !== undefined ? [output.summary] : []);
+    if (records.length === 0) return output.text;
+    return `${output.text}\n${JSON.stringify(records.map((r) => project(r, options.fields!)), null, 2)}`;
+  }
+
+  let text = output.text;
+  if (output.summary !== undefined) text += `\n${JSON.stringify(output.summary, null, 2)}`;
+  if (format === "full" && output.data !== undefined) text += `\n\nFull data:\n${JSON.stringify(output.data, null, 2)}`;
+  return text;
+}
+
+// Each tool is declared once; the JSON Schema advertised to clients is derived from its zod schema.
+export class ToolRegistry<C> {
+  private tools = new Map<string, ToolDefinition<C, any, any, any>>();
+
+  constructor(private options: { defaultFormat?: ResponseFormat } = {}) {}
+
+  define<S extends z.ZodTypeAny, R, O extends z.AnyZodObject>(tool: ToolDefinition<C, S, R, O>): this {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool ${tool.name} is already defined`);
+    }
+    this.tools.set(tool.name, tool);
+    return this;
+  }
+
+  get(name: string): ToolDefinition<C> | undefined {
+    return this.tools.get(name);
+  }
+
+  // With known capabilities, tools the key cannot use are either hidden or flagged in their description;
+  // tools the policy blocks are treated the same way.
+  list(options: { capabilities?: Capabilities; unavailable?: UnavailableToolMode; policy?: ToolPolicy } = {}) {
+    const responseProperties = (toJsonSchema(ResponseOptionsSchema) as any).properties;
+    const listed = [...this.tools.values()].flatMap((tool) => {
+      const missing = missingCapabilities(tool.requires, options.capabilities);
+      const access = options.policy?.access(tool.name, tool.effect) ?? "allow";
+      if ((missing.length > 0 || access === "block") && options.unavailable === "hide") return [];
+      return [{ tool, missing, access }];
+    });
+    const describe = (tool: ToolDefinition<C>, missing: Capability[], access: string) => {
+      if (missing.length > 0) {
+        return `[Unavailable with this API key] ${tool.description} ${missing.map((c) => CAPABILITY_HINTS[c]).join(" ")}`;
+      }
+      if (access === "block") return `[Blocked by server policy] ${tool.description}`;
+      if (access === "confirm") return `${tool.description} Asks the user to confirm before it runs.`;
+      return tool.description;
+    };
+    return listed.map(({ tool, missing, access }) => {
+      const inputSchema = toJsonSchema(tool.schema) as any;
+      return {
+        name: tool.name,
+        description: describe(tool, missing, access),
+        inputSchema: { ...inputSchema, properties: { ...inputSchema.properties, ...responseProperties } },
+        outputSchema: toJsonSchema(tool.outputSchema),
+      };
+    });
+  }
+
+  async call(name: string, args: unknown, context: C, capabilities: Capabilities = {}) {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+    }
+
+    // Known-missing capabilities fail fast instead of spending a request on a guaranteed 403.
+    const missing = missingCapabilities(tool.requires, capabilities);
+    if (missing.length > 0) {
+      throw new McpError(ErrorCode.InvalidRequest, `${name} is unavailable: ${missing.map((c) => CAPABILITY_HINTS[c]).join(" ")}`);
+    }
+
+    const responseOptions = ResponseOptionsSchema.parse(args ?? {});
+    const validated = tool.schema.parse(args ?? {});
+    const result = await tool.handler(validated, context);
+    const output = tool.format(result, validated);
+    // A mismatch here is a bug in the tool, not in the caller's arguments.
+    const structured = tool.outputSchema.safeParse(output.structured);
+    if (!structured.success) {
+      throw new McpError(ErrorCode.InternalError, `${name} produced output that does not match its outputSchema: ${structured.error.message}`);
+    }
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: renderOutput(output, responseOptions, this.options.defaultFormat ?? "summary"),
+        },
+      ],
+      structuredContent: structured.data as Record<string, unknown>,
+    };
+  }
+}
@@ -0,0 +1,118 @@
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+};
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+const RETRYABLE_NETWORK_CODES = new Set(["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "ECONNABORTED", "EAI_AGAIN", "EPIPE"]);
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function retryOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): RetryOptions {
+  return {
+    maxAttempts: readPositiveInt(env.APOLLO_MAX_ATTEMPTS, DEFAULT_RETRY_OPTIONS.maxAttempts),
+    baseDelayMs: readPositiveInt(env.APOLLO_RETRY_BASE_DELAY_MS, DEFAULT_RETRY_OPTIONS.baseDelayMs),
+    maxDelayMs: readPositiveInt(env.APOLLO_RETRY_MAX_DELAY_MS, DEFAULT_RETRY_OPTIONS.maxDelayMs),
+  };
+}
+
+function header(headers: any, name: string): string | undefined {
+  if (!headers) return undefined;
+  const value = typeof headers.get === "function" ? headers.get(name) : headers[name];
+  return value == null ? undefined : String(value);
+}
+
+// Non-idempotent calls are only retried when Apollo rejected them outright (429), never after a
+// network failure or 5xx where the write may already have been applied.
+export function isRetryable(error: any, idempotent: boolean): boolean {
+  const status = error.response?.status;
+  if (status === 429) {
+    // Hourly and daily quotas won't recover within any sensible backoff window.
+    const hourLeft = header(error.response.headers, "x-hourly-requests-left");
+    const dayLeft = header(error.response.headers, "x-24-hour-requests-left");
+    return hourLeft !== "0" && dayLeft !== "0";
+  }
+  if (!idempotent) return false;
+  if (status !== undefined) return RETRYABLE_STATUSES.has(status);
+  return RETRYABLE_NETWORK_CODES.has(error.code) || error.request !== undefined;
+}
+
+// Retry-After may be a number of seconds or an HTTP date.
+export function parseRetryAfter(value: string | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// "45 seconds", "60 minutes": rounded up, so nobody retries too early.
+export function describeWait(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  return seconds < 120 ? `${seconds} seconds` : `${Math.ceil(seconds / 60)} minutes`;
+}
+
+export function computeDelay(
+  error: any,
+  attempt: number,
+  options: RetryOptions,
+  random = Math.random,
+  now = Date.now()
+): number {
+  const headers = error.response?.headers;
+
+  // Honored as given; withRetry gives up rather than wait longer than maxDelayMs.
+  const retryAfter = parseRetryAfter(header(headers, "retry-after"), now);
+  if (retryAfter !== undefined) return retryAfter;
+
+  // Apollo's per-minute window resets on the minute boundary.
+  if (header(headers, "x-minute-requests-left") === "0") {
+    return Math.min(60_000 - (now % 60_000), options.maxDelayMs);
+  }
+
+  // Full jitter: a random delay up to the exponential ceiling.
+  const ceiling = Math.min(options.baseDelayMs * 2 ** (attempt - 1), options.maxDelayMs);
+  return Math.round(random() * ceiling);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Calls fn until it succeeds, a non-retryable error is thrown or maxAttempts is exhausted. Retrying before
+// Apollo's Retry-After would only meet another 429, so when it asks for longer than maxDelayMs the error is
+// thrown right away with the wait in `retryAfterMs`. The error finally thrown carries the attempts made in
+// `attempts`.
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: RetryOptions & { idempotent?: boolean },
+  wait: (ms: number) => Promise<unknown> = sleep
+): Promise<T> {
+  const idempotent = options.idempotent ?? true;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error: any) {
+      if (attempt >= options.maxAttempts || !isRetryable(error, idempotent)) {
+        error.attempts = attempt;
+        throw error;
+      }
+      const retryAfter = parseRetryAfter(header(error.response?.headers, "retry-after"));
+      if (retryAfter !== undefined && retryAfter > options.maxDelayMs) {
+        error.attempts = attempt;
+        error.retryAfterMs = retryAfter;
+        throw error;
+      }
+      await wait(computeDelay(error, attempt, options));
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import type { EmailAccount, EmailerCampaign } from "./apollo-types.js";
+
+export type SequenceMembershipAction = "remove" | "pause" | "finish";
+
+// Apollo's remove_or_stop_contact_ids endpoint names these modes differently from its UI.
+export const MEMBERSHIP_MODES: Record<SequenceMembershipAction, string> = {
+  remove: "remove",
+  pause: "stop",
+  finish: "mark_as_finished",
+};
+
+export interface EnrollmentCheck {
+  ok: boolean;
+  problems: string[];
+  sequence?: { id: string; name: string; active: boolean };
+  email_account?: { id: string; email: string; active: boolean };
+}
+
+// Checks that contacts can be enrolled: the sequence exists and is active, and the sender is a
+// connected, active email account.
+export function checkEnrollment(
+  sequenceId: string,
+  emailAccountId: string,
+  sequence?: EmailerCampaign,
+  emailAccount?: EmailAccount
+): EnrollmentCheck {
+  const problems: string[] = [];
+
+  if (!sequence) {
+    problems.push(`Sequence ${sequenceId} was not found`);
+  } else if (!sequence.active) {
+    problems.push(`Sequence "${sequence.name}" is not active; activate it in Apollo before enrolling contacts`);
+  } else if (sequence.archived) {
+    problems.push(`Sequence "${sequence.name}" is archived`);
+  }
+
+  if (!emailAccount) {
+    problems.push(`Email account ${emailAccountId} was not found; use apollo_get_email_accounts to list senders`);
+  } else if (!emailAccount.active) {
+    problems.push(`Email account ${emailAccount.email} is not active`);
+  }
+
+  return {
+    ok: problems.length === 0,
+    problems,
+    ...(sequence && { sequence: { id: sequence.id, name: sequence.name ?? "", active: Boolean(sequence.active) } }),
+    ...(emailAccount && { email_account: { id: emailAccount.id, email: emailAccount.email ?? "", active: Boolean(emailAccount.active) } }),
+  };
+}
@@ -0,0 +1,1749 @@
+// The MCP server: every tool and the request handlers. It takes its Apollo clients and credentials from the
+// caller, so src/index.ts and the tests can each wire it up their own way.
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  ListToolsRequestSchema,
+  CallToolRequestSchema,
+  ElicitResultSchema,
+  ErrorCode,
+  McpError,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import path from "node:path";
+import { mapWithConcurrency } from "./batch.js";
+import { collectPages } from "./pagination.js";
+import { describeWait } from "./retry.js";
+import { CacheInfo, normalizeDomain } from "./cache.js";
+import { AccountFields, accountFieldsFromOrganization } from "./accounts.js";
+import {
+  Account,
+  AccountSearchParams,
+  ApolloAuthenticationError,
+  ApolloClient,
+  ApolloError,
+  ApolloPermissionError,
+  ApolloRateLimitError,
+  ApolloServerError,
+  Contact,
+  isSystemicError,
+  ContactSearchParams,
+  EmailerTouch,
+  Organization,
+  OrganizationSearchParams,
+  Pagination,
+  PeopleSearchParams,
+  Person,
+  PersonMatchDetails,
+  SequenceSearchParams,
+} from "./apollo-client.js";
+import { ToolRegistry, responseFormatFromEnv } from "./registry.js";
+import { CAPABILITY_HINTS, Capabilities, missingCapabilities, unavailableToolModeFromEnv } from "./capabilities.js";
+import {
+  DEFAULT_HEALTH_THRESHOLDS,
+  SEQUENCE_METRICS,
+  compareSequences,
+  rankSequences,
+  sequenceIssues,
+  sequenceStats,
+  totalStats,
+} from "./analytics.js";
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  EXPORT_SOURCES,
+  resolveDataPath,
+  writeExport,
+} from "./export.js";
+import { ENRICH_TARGETS, EnrichOutcome, enrichFile } from "./enrich-file.js";
+import { IcpConfig, IcpConfigSchema, icpFileFromEnv, loadIcp, scoreLeads } from "./icp.js";
+import { CreditBudgetError } from "./usage.js";
+import { ToolCall, currentCall, newCall, runInCall } from "./call-context.js";
+import { AuditLog, REDACTION_MODES, countRecords, sanitizeArguments } from "./audit.js";
+import { ToolPolicy, confirmationMessage } from "./policy.js";
+import { aggregateEngagement, countTouches, engagementTimeline, messageEngagement, totalEngagement } from "./engagement.js";
+import {
+  ClientPool,
+  CredentialError,
+  CredentialOptions,
+  resolveTenant,
+} from "./credentials.js";
+import {
+  AccountOutput,
+  ActivityOutput,
+  CacheOutput,
+  ContactOutput,
+  EmailAccountOutput,
+  OrganizationOutput,
+  PaginationOutput,
+  PersonOutput,
+  SequenceOutput,
+  SequenceStatsOutput,
+  EngagementAggregateOutput,
+} from "./output-schemas.js";
+
+const PERSON_SENIORITIES = [
+  "owner", "founder", "c_suite", "partner", "vp", "head", "director", "manager", "senior", "entry", "intern",
+] as const;
+
+const PERSON_DEPARTMENTS = [
+  "c_suite", "engineering_technical", "design", "education", "finance", "human_resources",
+  "information_technology", "legal", "marketing", "medical_health", "operations", "product_management",
+  "sales", "consulting",
+] as const;
+
+const EMAIL_STATUSES = ["verified", "unverified", "likely_to_engage", "unavailable"] as const;
+
+// Apollo expects "min,max"; accept the more natural "min-max" too and normalize it.
+const employeeRange = z
+  .string()
+  .regex(/^\d+[,-]\d+$/, "Employee ranges must look like '11,50' or '11-50'")
+  .transform((range) => range.replace("-", ","));
+
+const SearchPeopleSchema = z.object({
+  keywords: z.string().optional().describe("Keywords to search for (job title, company, etc)"),
+  titles: z.array(z.string()).optional().describe("Array of job titles to filter by"),
+  include_similar_titles: z.boolean().optional().describe("Also match titles similar to the given titles (Apollo default: true)"),
+  locations: z.array(z.string()).optional().describe("Array of locations to filter by"),
+  seniorities: z.array(z.enum(PERSON_SENIORITIES)).optional().describe("Seniority levels to filter by"),
+  departments: z.array(z.enum(PERSON_DEPARTMENTS)).optional().describe("Departments to filter by"),
+  email_statuses: z.array(z.enum(EMAIL_STATUSES)).optional().describe("Email statuses to filter by"),
+  organization_ids: z.array(z.string()).optional().describe("Array of organization IDs to filter by"),
+  organization_domains: z.array(z.string()).optional().describe("Company domains to filter by (e.g., ['apollo.io'])"),
+  organization_locations: z.array(z.string()).optional().describe("Company headquarters locations to filter by"),
+  employee_ranges: z.array(employeeRange).optional().describe("Company employee count ranges (e.g., ['1,10', '11,50'])"),
+  revenue_min: z.number().int().min(0).optional().describe("Minimum company annual revenue in USD"),
+  revenue_max: z.number().int().min(0).optional().describe("Maximum company annual revenue in USD"),
+  technologies_all: z.array(z.string()).optional().describe("Technology UIDs the company uses, all required (e.g., ['salesforce', 'google_analytics'])"),
+  technologies_any: z.array(z.string()).optional().describe("Technology UIDs the company uses, any of"),
+  technologies_none: z.array(z.string()).optional().describe("Technology UIDs the company must not use"),
+  page: z.number().optional().default(1).describe("Page number for pagination"),
+  per_page: z.number().int().min(1).max(100).optional().default(10).describe("Results per page (max 100)"),
+  max_results: z.number().int().min(1).max(50000).optional().describe("Fetch successive pages (100 per page, starting at page) until this many unique results are collected"),
+  fetch_all: z.boolean().optional().default(false).describe("Fetch every page of results (up to Apollo's 50,000 record limit)"),
+});
+
+const EnrichPersonSchema = z.object({
+  first_name: z.string().optional().describe("Person's first name"),
+  last_name: z.string().optional().describe("Person's last name"),
+  email: z.string().optional().describe("Person's email address"),
+  domain: z.string().optional().describe("Company domain (e.g., apollo.io)"),
+  organization_name: z.string().optional().describe("Company name"),
+});
+
+const bypassCache = z.boolean().optional().default(false).describe("Skip the local cache and always call Apollo (costs credits)");
+
+const EnrichPersonToolSchema = EnrichPersonSchema.extend({
+  bypass_cache: bypassCache,
+});
+
+const BulkEnrichPeopleSchema = z.object({
+  people: z.array(EnrichPersonSchema).min(1).describe("People to match, each with email, name, or company info"),
+  concurrency: z.number().int().min(1).max(10).optional().default(3).describe("Number of batches to run in parallel (1-10)"),
+});
+
+const EnrichOrganizationSchema = z.object({
+  domain: z.string().describe("Company domain (e.g., apollo.io)"),
+  bypass_cache: bypassCache,
+});
+
+const SearchOrganizationsSchema = z.object({
+  keywords: z.string().optional().describe("Keywords to search for"),
+  locations: z.array(z.string()).optional().describe("Array of locations to filter by"),
+  employee_ranges: z.array(z.string()).optional().describe("Employee count ranges (e.g., ['1-10', '11-50'])"),
+  page: z.number().optional().default(1).describe("Page number for pagination"),
+  per_page: z.number().int().min(1).max(100).optional().default(10).describe("Results per page (max 100)"),
+  max_results: z.number().int().min(1).max(50000).optional().describe("Fetch successive pages (100 per page, starting at page) until this many unique results are collected"),
+  fetch_all: z.boolean().optional().default(false).describe("Fetch every page of results (up to Apollo's 50,000 record limit)"),
+});
+
+// The search filters an export accepts; paging is the export's own business.
+const ExportQuerySchemas = {
+  people: SearchPeopleSchema.omit({ per_page: true, max_results: true, fetch_all: true }).strict(),
+  organizations: SearchOrganizationsSchema.omit({ per_page: true, max_results: true, fetch_all: true }).strict(),
+};
+
+const ExportSchema = z.object({
+  source: z.enum(EXPORT_SOURCES).describe("people runs an apollo_search_people query, organizations an apollo_search_organizations query"),
+  query: z.record(z.unknown()).optional().default({}).describe(
+    "Search filters exactly as the matching search tool accepts them, e.g. { titles: ['CTO'], locations: ['Berlin'] }"
+  ),
+  format: z.enum(EXPORT_FORMATS).optional().default("csv").describe("csv for spreadsheets, jsonl for one JSON record per line"),
+  columns: z.array(z.string()).min(1).optional().describe(
+    "Paths to write, e.g. ['name', 'organization.name', 'phone_numbers[0].sanitized_number']. CSV uses a default set without it; JSONL writes whole records"
+  ),
+  max_results: z.number().int().min(1).max(50000).optional().default(1000).describe("Most records to export (max 50,000)"),
+  filename: z.string().optional().describe("File name inside the export directory (default: apollo-<source>-<timestamp>)"),
+});
+
+const EnrichFileSchema = z.object({
+  input: z.string().describe("CSV file to enrich; relative paths resolve against APOLLO_EXPORT_DIR"),
+  target: z.enum(ENRICH_TARGETS).optional().default("person").describe(
+    "person matches rows by email or name and company; organization matches rows by domain"
+  ),
+  column_mapping: z.object({
+    email: z.string().optional(),
+    first_name: z.string().optional(),
+    last_name: z.string().optional(),
+    domain: z.string().optional(),
+    organization_name: z.string().optional(),
+  }).optional().describe(
+    "CSV column for each match field, e.g. { email: 'Work Email' }; fields left out are detected from common header names"
+  ),
+  append_fields: z.array(z.string()).min(1).optional().describe(
+    "Apollo fields to append as apollo.<path> columns, e.g. ['title', 'organization.name']; defaults to the apollo_export columns"
+  ),
+  output: z.string().optional().describe("Output CSV (default: <input>.enriched.csv next to the input)"),
+  max_rows: z.number().int().min(1).max(5000).optional().default(500).describe(
+    "Rows to enrich in this call; call again to resume where it stopped"
+  ),
+  concurrency: z.number().int().min(1).max(10).optional().default(3).describe("Apollo requests in flight at once (1-10)"),
+  restart: z.boolean().optional().default(false).describe("Overwrite the output instead of resuming it"),
+});
+
+const ScoreLeadsSchema = z.object({
+  records: z.array(z.record(z.unknown())).min(1).max(1000).optional().describe(
+    "Organizations or people to score, as returned by the search and enrich tools"
+  ),
+  domains: z.array(z.string()).min(1).max(50).optional().describe("Company domains to enrich through Apollo and score"),
+  search: z.object({
+    source: z.enum(EXPORT_SOURCES),
+    query: z.record(z.unknown()).optional().default({}).describe("Search filters exactly as the matching search tool accepts them"),
+    max_results: z.number().int().min(1).max(1000).optional().default(100).describe("Most results to score (max 1,000)"),
+  }).optional().describe("Run a people or organization search and score its results"),
+  icp: IcpConfigSchema.optional().describe("ICP to score against instead of the APOLLO_ICP_FILE configuration"),
+  limit: z.number().int().min(1).max(1000).optional().default(25).describe("Highest-scoring leads to return"),
+}).refine((args) => [args.records, args.domains, args.search].filter(Boolean).length === 1, {
+  message: "Pass exactly one of records, domains or search",
+});
+
+const SearchSequencesSchema = z.object({
+  name: z.string().optional().describe("Sequence name to filter by"),
+  page: z.number().optional().default(1).describe("Page number for pagination"),
+  per_page: z.number().int().min(1).max(100).optional().default(25).describe("Results per page (max 100)"),
+});
+
+const SequenceAnalyticsSchema = z.object({
+  name: z.string().optional().describe("Only analyze sequences whose name matches"),
+  active_only: z.boolean().optional().default(false).describe("Skip inactive sequences"),
+  rank_by: z.enum(SEQUENCE_METRICS).optional().default("reply_rate").describe(
+    "Metric to rank by; bounce and opt-out rates rank lowest first, the others highest first"
+  ),
+  limit: z.number().int().min(1).max(100).optional().default(10).describe("How many ranked sequences to return"),
+  min_contacted: z.number().int().min(0).optional().default(DEFAULT_HEALTH_THRESHOLDS.min_contacted).describe(
+    "Sequences that contacted fewer people are left out of the ranking and never flagged"
+  ),
+  max_bounce_rate: z.number().min(0).max(1).optional().default(DEFAULT_HEALTH_THRESHOLDS.max_bounce_rate).describe(
+    "Flag sequences whose bounce rate is above this share, e.g. 0.05 for 5%"
+  ),
+  max_opt_out_rate: z.number().min(0).max(1).optional().default(DEFAULT_HEALTH_THRESHOLDS.max_opt_out_rate).describe(
+    "Flag sequences whose opt-out rate is above this share"
+  ),
+  min_reply_rate: z.number().min(0).max(1).optional().default(DEFAULT_HEALTH_THRESHOLDS.min_reply_rate).describe(
+    "Flag sequences whose reply rate is below this share"
+  ),
+  compare: z.array(z.string()).length(2).optional().describe("Two sequence IDs to compare side by side"),
+});
+
+const GetEmailMessageActivitiesSchema = z.object({
+  message_id: z.string().describe("The emailer message ID to get activities for"),
+});
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+const EmailEngagementReportSchema = z.object({
+  sequence_id: z.string().optional().describe("Only messages sent by this sequence"),
+  sent_after: isoDate.optional().describe("Only messages sent on or after this date (YYYY-MM-DD)"),
+  sent_before: isoDate.optional().describe("Only messages sent on or before this date (YYYY-MM-DD)"),
+  max_messages: z.number().int().min(1).max(1000).optional().default(200).describe(
+    "Most messages to analyze; each one costs an activities request (max 1000)"
+  ),
+  concurrency: z.number().int().min(1).max(10).optional().default(5).describe("Activity requests in flight at once (max 10)"),
+}).refine(
+  (data) => data.sequence_id || data.sent_after || data.sent_before,
+  { message: "Provide sequence_id, sent_after or sent_before" }
+);
+
+const contactFields = {
+  first_name: z.string().optional().describe("Contact's first name"),
+  last_name: z.string().optional().describe("Contact's last name"),
+  email: z.string().optional().describe("Contact's email address"),
+  title: z.string().optional().describe("Job title"),
+  organization_name: z.string().optional().describe("Company name"),
+  website_url: z.string().optional().describe("Company website or domain (e.g., apollo.io)"),
+  account_id: z.string().optional().describe("Apollo account ID to attach the contact to"),
+  contact_stage_id: z.string().optional().describe("Contact stage ID (see apollo_get_contact_stages)"),
+  label_names: z.array(z.string()).optional().describe("Labels (lists) to add the contact to"),
+  direct_phone: z.string().optional().describe("Direct phone number"),
+  mobile_phone: z.string().optional().describe("Mobile phone number"),
+  present_raw_address: z.string().optional().describe("Location, e.g. 'San Francisco, CA'"),
+};
+
+const CreateContactSchema = z.object({
+  ...contactFields,
+  skip_duplicate_check: z.boolean().optional().default(false).describe("Create even if a contact with the same email or name and company exists"),
+}).refine((c) => c.email || (c.first_name && c.last_name), {
+  message: "Provide an email or both first_name and last_name",
+});
+
+const UpdateContactSchema = z.object({
+  contact_id: z.string().describe("The Apollo contact ID to update"),
+  ...contactFields,
+});
+
+const SearchContactsSchema = z.object({
+  keywords: z.string().optional().describe("Keywords to search for (name, email, title, company)"),
+  contact_stage_ids: z.array(z.string()).optional().describe("Only return contacts in these stages"),
+  sort_by_field: z.enum(["contact_last_activity_date", "contact_email_last_opened_at", "contact_email_last_clicked_at", "contact_created_at", "contact_updated_at"]).optional().describe("Field to sort by"),
+  sort_ascending: z.boolean().optional().describe("Sort ascending instead of descending"),
+  page: z.number().optional().default(1).describe("Page number for pagination"),
+  per_page: z.number().int().min(1).max(100).optional().default(25).describe("Results per page (max 100)"),
+});
+
+const UpdateContactStageSchema = z.object({
+  contact_ids: z.array(z.string()).min(1).describe("Apollo contact IDs to move"),
+  contact_stage_id: z.string().describe("Target contact stage ID (see apollo_get_contact_stages)"),
+});
+
+const accountFields = {
+  name: z.string().optional().describe("Company name"),
+  domain: z.string().optional().describe("Company domain (e.g., apollo.io)"),
+  owner_id: z.string().optional().describe("Apollo user ID of the account owner"),
+  account_stage_id: z.string().optional().describe("Account stage ID"),
+  phone: z.string().optional().describe("Main phone number"),
+  raw_address: z.string().optional().describe("Company address"),
+};
+
+const CreateAccountSchema = z.object({
+  ...accountFields,
+  enrich_from_domain: z.boolean().optional().default(false).describe("Enrich the domain first and carry over name, industry, employee count, phone and address"),
+  skip_duplicate_check: z.boolean().optional().default(false).describe("Create even if an account with the same domain exists"),
+}).refine((a) => a.name || a.domain, {
+  message: "Provide a name or a domain",
+}).refine((a) => !a.enrich_from_domain || a.domain, {
+  message: "enrich_from_domain requires a domain",
+});
+
+const UpdateAccountSchema = z.object({
+  account_id: z.string().describe("The Apollo account ID to update"),
+  ...accountFields,
+});
+
+const SearchAccountsSchema = z.object({
+  keywords: z.string().optional().describe("Company name to search for"),
+  account_stage_ids: z.array(z.string()).optional().describe("Only return accounts in these stages"),
+  sort_by_field: z.enum(["account_last_activity_date", "account_created_at", "account_updated_at"]).optional().describe("Field to sort by"),
+  sort_ascending: z.boolean().optional().describe("Sort ascending instead of descending"),
+  page: z.number().optional().default(1).describe("Page number for pagination"),
+  per_page: z.number().int().min(1).max(100).optional().default(25).describe("Results per page (max 100)"),
+});
+
+const UpdateAccountOwnersSchema = z.object({
+  account_ids: z.array(z.string()).min(1).describe("Apollo account IDs to reassign"),
+  owner_id: z.string().describe("Apollo user ID of the new owner"),
+});
+
+const AddContactsToSequenceSchema = z.object({
+  sequence_id: z.string().describe("The sequence (emailer campaign) ID"),
+  contact_ids: z.array(z.string()).min(1).describe("Apollo contact IDs to enroll"),
+  email_account_id: z.string().describe("Email account ID to send from (see apollo_get_email_accounts)"),
+  add_if_in_other_sequences: z.boolean().optional().default(false).describe("Also enroll contacts that are active in another sequence"),
+  dry_run: z.boolean().optional().default(false).describe("Only validate the sequence and sender, don't enroll anyone"),
+});
+
+const UpdateSequenceContactsSchema = z.object({
+  sequence_ids: z.array(z.string()).min(1).describe("Sequence IDs the contacts should be acted on in"),
+  contact_ids: z.array(z.string()).min(1).describe("Apollo contact IDs"),
+  action: z.enum(["remove", "pause", "finish"]).describe("remove them from the sequence, pause them, or mark them as finished"),
+});
+
+const GetRateLimitStatusSchema = z.object({
+  endpoint: z.string().optional().describe("Only report this Apollo endpoint (e.g., /mixed_people/search)"),
+});
+
+const GetAuditLogSchema = z.object({
+  type: z.enum(["tool", "apollo"]).optional().describe("tool: tool invocations; apollo: the HTTP requests they made to Apollo"),
+  tool: z.string().optional().describe("Only entries for this tool, e.g. apollo_bulk_enrich_people"),
+  status: z.enum(["ok", "error"]).optional(),
+  call_id: z.string().optional().describe("Only one tool call and its Apollo requests"),
+  since: z.string().datetime({ offset: true }).optional().describe("ISO timestamp; only newer entries"),
+  limit: z.number().int().min(1).max(500).optional().default(50).describe("Maximum entries, newest first (max 500)"),
+});
+
+const GetUsageSchema = z.object({
+  days: z.number().int().min(1).max(90).optional().default(7).describe("UTC days to report, today included (max 90)"),
+});
+
+function summarizeEnrichedPerson(person: Person) {
+  return {
+    id: person.id,
+    name: person.name,
+    title: person.title,
+    company: person.organization?.name,
+    email: person.email,
+    phone: person.phone_numbers?.[0]?.sanitized_number,
+    linkedin: person.linkedin_url,
+    location: person.city && person.state ? `${person.city}, ${person.state}` : person.country,
+  };
+}
+
+function summarizeContact(contact?: Contact) {
+  return {
+    id: contact?.id,
+    name: contact?.name,
+    title: contact?.title,
+    company: contact?.organization_name || contact?.account?.name,
+    email: contact?.email,
+    stage_id: contact?.contact_stage_id,
+    owner_id: contact?.owner_id,
+  };
+}
+
+function summarizeAccount(account?: Partial<Account>) {
+  return {
+    id: account?.id,
+    name: account?.name,
+    domain: account?.domain,
+    industry: account?.industry ?? account?.organization?.industry,
+    employees: account?.estimated_num_employees ?? account?.organization?.estimated_num_employees,
+    stage_id: account?.account_stage_id,
+    owner_id: account?.owner_id,
+  };
+}
+
+function cacheNote(cache: CacheInfo) {
+  return cache.hit ? ` (cached ${cache.stored_at}, no credits used)` : "";
+}
+
+// Maps search tool arguments onto Apollo's people search parameters.
+function peopleSearchParams(validated: Partial<z.output<typeof SearchPeopleSchema>>) {
+  const params: PeopleSearchParams = {
+    page: validated.page,
+    per_page: validated.per_page,
+  };
+
+  if (validated.keywords) params.q_keywords = validated.keywords;
+  if (validated.titles) params.person_titles = validated.titles;
+  if (validated.include_similar_titles !== undefined) params.include_similar_titles = validated.include_similar_titles;
+  if (validated.locations) params.person_locations = validated.locations;
+  if (validated.seniorities) params.person_seniorities = validated.seniorities;
+  if (validated.departments) params.person_department_or_subdepartments = validated.departments;
+  // Apollo spells the status "likely to engage"; the underscore form is kept for consistency with the other enums.
+  if (validated.email_statuses) params.contact_email_status = validated.email_statuses.map((s) => s.replace(/_/g, " "));
+  if (validated.organization_ids) params.organization_ids = validated.organization_ids;
+  if (validated.organization_domains) params.q_organization_domains_list = validated.organization_domains.map(normalizeDomain);
+  if (validated.organization_locations) params.organization_locations = validated.organization_locations;
+  if (validated.employee_ranges) params.organization_num_employees_ranges = validated.employee_ranges;
+  if (validated.revenue_min !== undefined || validated.revenue_max !== undefined) {
+    params.revenue_range = { min: validated.revenue_min, max: validated.revenue_max };
+  }
+  if (validated.technologies_all) params.currently_using_all_of_technology_uids = validated.technologies_all;
+  if (validated.technologies_any) params.currently_using_any_of_technology_uids = validated.technologies_any;
+  if (validated.technologies_none) params.currently_not_using_any_of_technology_uids = validated.technologies_none;
+
+  return params;
+}
+
+function organizationSearchParams(validated: Partial<z.output<typeof SearchOrganizationsSchema>>) {
+  const params: OrganizationSearchParams = {
+    page: validated.page,
+    per_page: validated.per_page,
+  };
+
+  if (validated.keywords) params.q_keywords = validated.keywords;
+  if (validated.locations) params.organization_locations = validated.locations;
+  if (validated.employee_ranges) params.organization_num_employees_ranges = validated.employee_ranges;
+
+  return params;
+}
+
+// Works for a single Apollo page (`pagination`) and for collectPages stats spread into the result.
+function summarizePagination(result: {
+  pagination?: Pagination;
+  total_entries?: number;
+  total_pages?: number;
+  pages_fetched?: number;
+  credits_consumed?: number | null;
+  duplicates_skipped?: number;
+}) {
+  const pagination = result.pagination || {};
+  return {
+    page: pagination.page,
+    per_page: pagination.per_page,
+    total_entries: pagination.total_entries ?? result.total_entries,
+    total_pages: pagination.total_pages ?? result.total_pages,
+    pages_fetched: result.pages_fetched,
+    credits_consumed: result.credits_consumed,
+    duplicates_skipped: result.duplicates_skipped,
+  };
+}
+
+interface ToolContext {
+  client: ApolloClient;
+  files: FileAccess;
+  audit?: AuditLog;
+}
+
+type RequestExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+// Where tools read and write local files. Shared HTTP deployments confine them to dataDir, and each
+// workspace gets its own folder there, as with the cache and usage ledger.
+export interface FileAccess {
+  dataDir: string;
+  confine: boolean;
+}
+
+function summarizeSearchPerson(p: Person) {
+  return {
+    id: p.id,
+    name: p.name,
+    title: p.title,
+    company: p.organization?.name,
+    location: p.city && p.state ? `${p.city}, ${p.state}` : p.country,
+    email: p.email,
+    linkedin: p.linkedin_url,
+  };
+}
+
+function summarizeSearchOrganization(o: Organization) {
+  return {
+    id: o.id,
+    name: o.name,
+    domain: o.primary_domain,
+    industry: o.industry,
+    employees: o.estimated_num_employees,
+    location: o.city && o.state ? `${o.city}, ${o.state}` : o.country,
+  };
+}
+
+const tools = new ToolRegistry<ToolContext>({ defaultFormat: responseFormatFromEnv() });
+
+tools.define({
+  name: "apollo_search_people",
+  description: "Search for people/prospects in Apollo's B2B database. Filter by job titles, seniority, department, location, email status, and company domain, size, revenue and technologies.",
+  schema: SearchPeopleSchema,
+  outputSchema: z.object({
+    people: z.array(PersonOutput),
+    pagination: PaginationOutput,
+  }),
+  handler: async (validated, { client }) => {
+    const params = peopleSearchParams(validated);
+
+    if (validated.fetch_all || validated.max_results) {
+      const { records, ...stats } = await collectPages(
+        (page, per_page) => client.searchPeople({ ...params, page, per_page }),
+        { key: "people", startPage: validated.page, maxResults: validated.max_results }
+      );
+      return {
+        result: { people: records, ...stats },
+        header: `Fetched ${records.length} unique people of ${stats.total_entries} ` +
+                `(${stats.pages_fetched} pages, ${stats.credits_consumed} credits consumed)`,
+      };
+    }
+
+    const result = await client.searchPeople(params);
+    return { result, header: `Found ${result.pagination?.total_entries || 0} people` };
+  },
+  format: ({ result, header }) => {
+    const summary = (result.people || []).map(summarizeSearchPerson);
+    return {
+      text: `${header}\n\nResults:`,
+      summary,
+      data: result,
+      records: result.people || [],
+      structured: { people: summary, pagination: summarizePagination(result) },
+    };
+  },
+});
+
+tools.define({
+  name: "apollo_enrich_person",
+  description: "Enrich a person's data with Apollo's B2B intelligence. Provide email, name, or company info.",
+  schema: EnrichPersonToolSchema,
+  outputSchema: z.object({
+    person: PersonOutput.nullable(),
+    cache: CacheOutput,
+  }),
+  handler: async ({ bypass_cache, ...validated }, { client }) => {
+    const params: PersonMatchDetails = {};
+    if (validated.first_name) params.first_name = validated.first_name;
+    if (validated.last_name) params.last_name = validated.last_name;
+    if (validated.email) params.email = validated.email;
+    if (validated.domain) params.domain = validated.domain;
+    if (validated.organization_name) params.organization_name = validated.organization_name;
+
+    return client.enrichPerson(params, { bypassCache: bypass_cache });
+  },
+  format: ({ result, cache }) => {
+    if (!result.person) {
+      return {
+        text: "No person found with the provided information.",
+        structured: { person: null, cache },
+      };
+    }
+    const summary = summarizeEnrichedPerson(result.person);
+    return {
+      text: `Person Enrichment${cacheNote(cache)}:\n`,
+      summary,
+      data: result,
+      records: [result.person],
+      structured: { person: summary, cache },
+    };
+  },
+});
+
+tools.define({
+  name: "apollo_bulk_enrich_people",
+  description: "Enrich many people at once using Apollo's bulk match endpoint. Inputs are batched 10 at a time and every row is reported as matched, not_found, or error by its input index.",
+  schema: BulkEnrichPeopleSchema,
+  outputSchema: z.object({
+    counts: z.object({ matched: z.number(), not_found: z.number(), error: z.number() }),
+    results: z.array(z.object({
+      index: z.number(),
+      status: z.enum(["matched", "not_found", "error"]),
+      person: PersonOutput.optional(),
+      error: z.string().optional(),
+    })),
+  }),
+  handler: async ({ people, concurrency }, { client }) => client.bulkEnrichPeople(people, concurrency),
+  format: (rows) => {
+    const counts = {
+      matched: rows.filter((r) => r.status === "matched").length,
+      not_found: rows.filter((r) => r.status === "not_found").length,
+      error: rows.filter((r) => r.status === "error").length,
+    };
+    const summary = rows.map((r) => ({
+      index: r.index,
+      status: r.status,
+      ...(r.person && { person: summarizeEnrichedPerson(r.person) }),
+      ...(r.error && { error: r.error }),
+    }));
+    return {
+      text: `Bulk Person Enrichment: ${counts.matched} matched, ${counts.not_found} not found, ${counts.error} errors (of ${rows.length})\n\nResults:`,
+      summary,
+      data: rows,
+      records: rows,
+      structured: { counts, results: summary },
+    };
+  },
+});
+
+tools.define({
+  name: "apollo_enrich_organization",
+  description: "Enrich a company's data with Apollo's B2B intelligence using their domain.",
+  schema: EnrichOrganizationSchema,
+  outputSchema: z.object({
+    organization: OrganizationOutput.nullable(),
+    cache: CacheOutput,
+  }),
+  handler: async ({ domain, bypass_cache }, { client }) => client.enrichOrganization(domain, { bypassCache: bypass_cache }),
+  format: ({ result, cache }) => {
+    const org = result.organization;
+    if (!org) {
+      return {
+        text: "No organization found with the provided domain.",
+        structured: { organization: null, cache },
+      };
+    }
+    const summary = {
+      id: org.id,
+      name: org.name,
+      domain: org.primary_domain,
+      industry: org.industry,
+      employees: org.estimated_num_employees,
+      location: org.city && org.state ? `${org.city}, ${org.state}` : org.country,
+      description: org.short_description,
+      founded: org.founded_year,
+      linkedin: org.linkedin_url,
+      technologies: org.current_technologies?.slice(0, 10),
+    };
+    return {
+      text: `Organization Enrichment${cacheNote(cache)}:\n`,
+      summary,
+      data: result,
+      records: [org],
+      structured: { organization: summary, cache },
+    };
+  },
+});
+
+tools.define({
+  name: "apollo_search_organizations",
+  description: "Search for companies/organizations in Apollo's B2B database. Filter by location, size, keywords, etc.",
+  schema: SearchOrganizationsSchema,
+  outputSchema: z.object({
+    organizations: z.array(OrganizationOutput),
+    pagination: PaginationOutput,
+  }),
+  handler: async (validated, { client }) => {
+    const params = organizationSearchParams(validated);
+
+    if (validated.fetch_all || validated.max_results) {
+      const { records, ...stats } = await collectPages(
+        (page, per_page) => client.searchOrganizations({ ...params, page, per_page }),
+        { key: "organizations", startPage: validated.page, maxResults: validated.max_results }
+      );
+      return {
+        result: { organizations: records, ...stats },
+        header: `Fetched ${records.length} unique organizations of ${stats.total_entries} ` +
+                `(${stats.pages_fetched} pages, ${stats.credits_consumed} credits consumed)`,
+      };
+    }
+
+    const result = await client.searchOrganizations(params);
+    return { result, header: `Found ${result.pagination?.total_entries || 0} organizations` };
+  },
+  format: ({ result, header }) => {
+    const summary = (result.organizations || []).map(summarizeSearchOrganization);
+    return {
+      text: `${header}\n\nResults:`,
+      summary,
+      data: result,
+      records: result.organizations || [],
+      structured: { organizations: summary, pagination: summarizePagination(result) },
+    };
+  },
+});
+
+tools.define({
+  name: "apollo_export",
+  description: "Export the results of a people or organization search to a CSV or JSONL file for spreadsheets. " +
+               "Pages through the results, flattens nested fields into columns and returns the file path and row count.",
+  schema: ExportSchema,
+  outputSchema: z.object({
+    path: z.string(),
+    format: z.enum(EXPORT_FORMATS),
+    rows: z.number(),
+    columns: z.array(z.string()).nullable(),
+    total_entries: z.number(),
+    pages_fetched: z.number(),
+    credits_consumed: z.number(),
+  }),
+  handler: async (validated, { client, files }) => {
+    const query = ExportQuerySchemas[validated.source].parse(validated.query);
+    const params = validated.source === "people"
+      ? peopleSearchParams(query as z.output<typeof ExportQuerySchemas.people>)
+      : organizationSearchParams(query);
+    const search = validated.source === "people"
+      ? (page: number, per_page: number) => client.searchPeople({ ...params, page, per_page })
+      : (page: number, per_page: number) => client.searchOrganizations({ ...params, page, per_page });
+
+    const { records, ...stats } = await collectPages(search, {
+      key: validated.source,
+      startPage: query.page,
+      maxResults: validated.max_results,
+    });
+    const file = await writeExport({
+      dir: files.dataDir,
+      source: validated.source,
+      format: validated.format,
+      records,
+      columns: validated.columns,
+      name: validated.filename,
+    });
+    return { ...file, total_entries: stats.total_entries, pages_fetched: stats.pages_fetched, credits_consumed: stats.credits_consumed };
+  },
+  format: (result) => ({
+    text: `Wrote ${result.rows} rows (of ${result.total_entries} matching) to ${result.path} ` +
+          `(${result.pages_fetched} pages, ${result.credits_consumed} credits consumed)`,
+    summary: { path: result.path, rows: result.rows, columns: result.columns },
+    structured: result,
+  }),
+});
+
+tools.define({
+  name: "apollo_enrich_file",
+  description: "Enrich a local CSV of people (emails, names, companies) or companies (domains) through Apollo and write a copy " +
+               "with Apollo fields and a match-status column appended. Resumable: calling again continues after the last written row. Costs credits per matched row.",
+  schema: EnrichFileSchema,
+  outputSchema: z.object({
+    output: z.string(),
+    total_rows: z.number(),
+    resumed_from: z.number(),
+    processed: z.number(),
+    remaining: z.number(),
+    counts: z.object({ matched: z.number(), not_found: z.number(), skipped: z.number(), error: z.number() }),
+    mapping: z.record(z.string()),
+    stopped: z.string().optional(),
+  }),
+  handler: async (validated, { client, files }) => {
+    const input = resolveDataPath(files.dataDir, validated.input, files.confine);
+    const output = validated.output
+      ? resolveDataPath(files.dataDir, validated.output, files.confine)
+      : path.join(path.dirname(input), `${path.basename(input, path.extname(input))}.enriched.csv`);
+
+    const enrich = validated.target === "person"
+      ? async (batch: PersonMatchDetails[]): Promise<EnrichOutcome[]> =>
+          (await client.bulkEnrichPeople(batch, validated.concurrency))
+            .map((row) => ({ status: row.status, record: row.person, error: row.error, systemic: row.systemic }))
+      : async (batch: { domain: string }[]) => mapWithConcurrency(batch, validated.concurrency, async ({ domain }): Promise<EnrichOutcome> => {
+          try {
+            const { result } = await client.enrichOrganization(domain);
+            return result.organization ? { status: "matched", record: result.organization } : { status: "not_found" };
+          } catch (error) {
+            return { status: "error", error: (error as Error).message, systemic: isSystemicError(error) };
+          }
+        });
+
+    return enrichFile({
+      input,
+      output,
+      target: validated.target,
+      columnMapping: validated.column_mapping,
+      appendFields: validated.append_fields ?? DEFAULT_EXPORT_COLUMNS[validated.target === "person" ? "people" : "organizations"],
+      maxRows: validated.max_rows,
+      restart: validated.restart,
+      enrich,
+    });
+  },
+  format: (result) => {
+    const { matched, not_found, skipped, error } = result.counts;
+    const progress = result.remaining > 0
+      ? `${result.remaining} rows remain; call again with the same input to continue.`
+      : "All rows are done.";
+    return {
+      text: (result.processed > 0
+              ? `Enriched rows ${result.resumed_from + 1}-${result.resumed_from + result.processed} of ${result.total_rows} into ${result.output}: `
+              : `No rows enriched into ${result.output}: `) +
+            `${matched} matched, ${not_found} not found, ${skipped} skipped, ${error} errors. ` +
+            (result.stopped ? `Stopped early: ${result.stopped}. ` : "") + progress,
+      summary: { mapping: result.mapping },
+      structured: result,
+    };
+  },
+});
+
+async function resolveIcp(inline?: IcpConfig): Promise<IcpConfig> {
+  if (inline) return inline;
+  const file = icpFileFromEnv();
+  if (!file) {
+    throw new McpError(ErrorCode.InvalidParams, "No ICP configured: set APOLLO_ICP_FILE or pass icp");
+  }
+  return loadIcp(file);
+}
+
+tools.define({
+  name: "apollo_score_leads",
+  description: "Score organizations or people against the ideal customer profile (weighted rules on industry, headcount, location, " +
+               "tech stack, title and seniority) and rank them. Deterministic, and explains which rules each lead matched. " +
+               "Scores given records, enriches domains, or runs a search.",
+  schema: ScoreLeadsSchema,
+  outputSchema: z.object({
+    profile: z.string(),
+    scored: z.number(),
+    leads: z.array(z.object({
+      id: z.string().nullable(),
+      name: z.string().nullable(),
+      score: z.number(),
+      normalized_score: z.number(),
+      tier: z.string(),
+      matched: z.array(z.object({ rule: z.string(), weight: z.number(), value: z.unknown() })),
+      unmatched: z.array(z.string()),
+    })),
+    not_found: z.array(z.string()).optional(),
+  }),
+  handler: async (validated, { client }) => {
+    const icp = await resolveIcp(validated.icp);
+    let records: Record<string, unknown>[] = validated.records ?? [];
+    let notFound: string[] | undefined;
+
+    if (validated.domains) {
+      const enriched = await mapWithConcurrency(validated.domains, 3, async (domain) =>
+        ({ domain, organization: (await client.enrichOrganization(domain)).result.organization }));
+      records = enriched.flatMap((e) => (e.organization ? [e.organization] : []));
+      notFound = enriched.filter((e) => !e.organization).map((e) => e.domain);
+    } else if (validated.search) {
+      const { source, max_results } = validated.search;
+      const query = ExportQuerySchemas[source].parse(validated.search.query);
+      const params = source === "people"
+        ? peopleSearchParams(query as z.output<typeof ExportQuerySchemas.people>)
+        : organizationSearchParams(query);
+      const search = source === "people"
+        ? (page: number, per_page: number) => client.searchPeople({ ...params, page, per_page })
+        : (page: number, per_page: number) => client.searchOrganizations({ ...params, page, per_page });
+      ({ records } = await collectPages<Person | Organization>(search, { key: source, startPage: query.page, maxResults: max_results }));
+    }
+
+    const scored = scoreLeads(records, icp);
+    return { profile: icp.name, scored: scored.length, leads: scored.slice(0, validated.limit), ...(notFound && { not_found: notFound }) };
+  },
+  format: (result) => ({
+    text: `Scored ${result.scored} leads against ${result.profile}` +
+          (result.leads.length < result.scored ? `; top ${result.leads.length}:` : ":") +
+          (result.not_found?.length ? ` (no Apollo match for ${result.not_found.join(", ")})` : "") + "\n\n" +
+          result.leads.map((lead, i) =>
+            `${i + 1}. ${lead.name ?? lead.id ?? "unnamed"}: ${lead.score} (${lead.normalized_score}/100, tier ${lead.tier})` +
+            (lead.matched.length ? ` - ${lead.matched.map((m) => `${m.rule} ${m.weight > 0 ? "+" : ""}${m.weight}`).join(", ")}` : "")
+          ).join("\n"),
+    structured: result,
+  }),
+});
+
+tools.define({
+  name: "apollo_search_sequences",
+  description: "Search for email sequences in your Apollo account. Returns sequence stats including sent, bounced, replied counts. Requires master API key.",
+  requires: ["master_key"],
+  schema: SearchSequencesSchema,
+  outputSchema: z.object({
+    sequences: z.array(SequenceOutput),
+    pagination: PaginationOutput,
+  }),
+  handler: async (validated, { client }) => {
+    const params: SequenceSearchParams = {
+      page: validated.page,
+      per_page: validated.per_page,
+    };
+
+    if (validated.name) params.name = validated.name;
+
+    return client.searchSequences(params);
+  },
+  format: (result) => {
+    const sequences = result.emailer_campaigns || [];
+    const summary = sequences.map((s) => ({
+      id: s.id,
+      name: s.name,
+      active: s.active,
+      num_steps: s.num_steps,
+      stats: {
+        sent: s.num_contacted_people,
+        bounced: s.num_bounced_people,
+        replied: s.num_replied_people,
+        interested: s.num_interested_people,
+        opt_out: s.num_opt_out_people,
+      },
+    }));
+    return {
+      text: `Found ${sequences.length} sequences\n\nSummary:`,
+      summary,
+      data: result,
+      records: sequences,
+      structured: { sequences: summary, pagination: summarizePagination(result) },
+    };
+  },
+});
+
+tools.define({
+  name: "apollo_sequence_analytics",
+  description: "Analyze the performance of all sequences: bounce, reply, interested and opt-out rates, a ranking, " +
+               "unhealthy sequences flagged against thresholds, and optionally two sequences compared side by side. Requires master API key.",
+  requires: ["master_key"],
+  schema: SequenceAnalyticsSchema,
+  outputSchema: z.object({
+    totals: SequenceStatsOutput.omit({ id: true, name: true, active: true }).extend({ sequences: z.number() }),
+    ranking: z.array(SequenceStatsOutput),
+    unhealthy: z.array(SequenceStatsOutput.extend({ issues: z.array(z.string()) })),
+    comparison: z.object({
+      a: SequenceStatsOutput,
+      b: SequenceStatsOutput,
+      metrics: z.array(z.object({
+        metric: z.enum(SEQUENCE_METRICS),
+        a: z.number().nullable(),
+        b: z.number().nullable(),
+        difference: z.number().nullable(),
+        better: z.enum(["a", "b", "tie"]).nullable(),
+      })),
+    }).optional(),
+  }),
+  handler: async (validated, { client }) => {
+    const sequences = await client.listSequences(validated.name);
+    const stats = sequences
+      .filter((s) => !validated.active_only || s.active)
+      .map(sequenceStats);
+
+    let comparison;
+    if (validated.compare) {
+      // Compared sequences are looked up among all sequences, not only those matching the filters.
+      const all = validated.name || validated.active_only ? (await client.listSequences()).map(sequenceStats) : stats;
+      const [a, b] = validated.compare.map((id) => {
+        const found = all.find((s) => s.id === id);
+        if (!found) throw new McpError(ErrorCode.InvalidParams, `Sequence ${id} was not found`);
+        return found;
+      });
+      comparison = { a, b, metrics: compareSequences(a, b) };
+    }
+
+    return { stats, comparison, thresholds: validated };
+  },
+  format: ({ stats, comparison, thresholds }) => {
+    const totals = totalStats(stats);
+    const ranking = rankSequences(stats.filter((s) => s.contacted >= thresholds.min_contacted), thresholds.rank_by)
+      .slice(0, thresholds.limit);
+    const unhealthy = stats
+      .map((s) => ({ ...s, issues: sequenceIssues(s, thresholds) }))
+      .filter((s) => s.issues.length > 0);
+
+    const lines = [
+      `Analyzed ${stats.length} sequences: ${unhealthy.length} flagged as unhealthy`,
+      ...unhealthy.map((s) => `- ${s.name}: ${s.issues.join("; ")}`),
+      "",
+      `Top ${ranking.length} by ${thresholds.rank_by}:`,
+    ];
+    return {
+      text: lines.join("\n"),
+      summary: { ranking, ...(comparison && { comparison }), totals },
+      data: stats,
+      records: ranking,
+      structured: { totals, ranking, unhealthy, ...(comparison && { comparison }) },
+    };
+  },
+});
+
+tools.define({
+  name: "apollo_get_email_accounts",
+  description: "Get list of email accounts connected to your Apollo account. Requires master API key.",
+  requires: ["master_key"],
+  schema: z.object({}),
+  outputSchema: z.object({
+    email_accounts: z.array(EmailAccountOutput),
+  }),
+  handler: async (_, { client }) => client.getEmailAccounts(),
+  format: (result) => {
+    const accounts = result.email_accounts || [];
+    const summary = accounts.map((a) => ({
+      id: a.id,
+      email: a.email,
+      active: a.active,
+      type: a.type,
+    }));
+    return {
+      text: `Found ${accounts.length} email accounts\n\nAccounts:`,
+      summary,
+      data: result,
+      records: accounts,
+      structured: { email_accounts: summary },
+    };
+  },
+});
+
+tools.define({
+  name: "apollo_get_email_message_activities",
+  description: "Get activities (opens, clicks, replies) for a specific email message sent via sequence. Requires master API key.",
+  requires: ["master_key"],
+  schema: GetEmailMessageActivitiesSchema,
+  outputSchema: z.object({
+    message_id: z.string(),
+    total_activities: z.number(),
+    opens: z.number(),
+    clicks: z.number(),
+    replies: z.number(),
+    activities: z.array(ActivityOutput),
+  }),
+  handler: async ({ message_id }, { client }) => client.getEmailMessageActivities(message_id),
+  format: (result, { message_id }) => {
+    const activities = result.emailer_touches || [];
+    const summary = {
+      message_id,
+      total_activities: activities.length,
+      ...countTouches(activities),
+      activities: activities.map((a) => ({
+        type: a.touch_type,
+        created_at: a.created_at,
+        user_agent: a.user_agent,
+      })),
+    };
+    return {
+      text: `Email Message Activities:\n`,
+      summary,
+      data: result,
+      records: activities,
+      structured: summary,
+    };
+  },
+});
+
+tools.define({
+  name: "apollo_email_engagement_report",
+  description: "Report engagement across the emails of a sequence or date range: a daily timeline and per-step and " +
+               "per-sender opens, clicks, replies and time to first open. Fetches each message's activities. Requires master API key.",
+  requires: ["master_key"],
+  schema: EmailEngagementReportSchema,
+  outputSchema: z.object({
+    messages: z.number(),
+    total_messages: z.number(),
+    failed_messages: z.array(z.object({ message_id: z.string(), error: z.string() })),
+    totals: EngagementAggregateOutput.omit({ key: true }),
+    by_step: z.array(EngagementAggregateOutput),
+    by_sender: z.array(EngagementAggregateOutput),
+    timeline: z.array(z.object({
+      date: z.string(),
+      sent: z.number(),
+      opens: z.number(),
+      clicks: z.number(),
+      replies: z.number(),
+    })),
+  }),
+  handler: async (validated, { client }) => {
+    const { records: messages, total_entries } = await collectPages(
+      (page, per_page) => client.searchEmailerMessages({
+        ...(validated.sequence_id && { emailer_campaign_ids: [validated.sequence_id] }),
+        sent_after: validated.sent_after,
+        sent_before: validated.sent_before,
+        page,
+        per_page,
+      }),
+      { key: "emailer_messages", maxResults: validated.max_messages }
+    );
+
+    // One failed message should not sink the report; it is listed instead.
+    const fetched = await mapWithConcurrency(messages, validated.concurrency, async (message) => {
+      try {
+        const activities = await client.getEmailMessageActivities(message.id);
+        return { message, touches: activities.emailer_touches || [] };
+      } catch (error) {
+        return { message, touches: [] as EmailerTouch[], error: (error as Error).message || String(error) };
+      }
+    });
+    return { fetched, total_entries };
+  },
+  format: ({ fetched, total_entries }) => {
+    const ok = fetched.filter((f) => !f.error);
+    const failed = fetched.filter((f) => f.error).map((f) => ({ message_id: f.message.id, error: f.error! }));
+    const rows = ok.map((f) => messageEngagement(f.message, f.touches));
+    const totals = totalEngagement(rows);
+    const byStep = aggregateEngagement(rows, (r) => r.step_id);
+    const bySender = aggregateEngagement(rows, (r) => r.sender);
+    const timeline = engagementTimeline(ok);
+
+    const structured = {
+      messages: rows.length,
+      total_messages: total_entries,
+      failed_messages: failed,
+      totals,
+      by_step: byStep,
+      by_sender: bySender,
+      timeline,
+    };
+    return {
+      text: `Engagement across ${rows.length} messages` +
+            (total_entries > fetched.length ? ` (the first ${fetched.length} of ${total_entries})` : "") +
+            (failed.length > 0 ? `; activities failed for ${failed.length}` : "") +
+            `\n\nReport:`,
+      summary: { totals, by_step: byStep, by_sender: bySender, timeline, ...(failed.length > 0 && { failed_messages: failed }) },
+      data: rows,
+      records: rows,
+      structured,
+    };
+  },
+});
+
+tools.define({
+  name: "apollo_create_contact",
+  description: "Save a person as a contact in your Apollo workspace. Checks for an existing contact with the same email, then the same name at the same company, and returns it instead of creating a duplicate.",
+  effect: "write",
+  schema: CreateContactSchema,
+  outputSchema: z.object({
+    status: z.enum(["created", "duplicate"]),
+    matched_on: z.enum(["email", "name_and_domain"]).optional(),
+    contact: ContactOutput,
+  }),
+  handler: async ({ skip_duplicate_check, ...fields }, { client }) => {
+    if (!skip_duplicate_check) {
+      const duplicate = await client.findDuplicateContact(fields);
+      if (duplicate) return { duplicate };
+    }
+    return { created: await client.createContact(fields) };
+  },
+  format: ({ duplicate, created }) => {
+    if (duplicate) {
+      const summary = summarizeContact(duplicate.contact);
+      return {
+        text: `Contact already exists (matched on ${duplicate.matched_on}), not creating a duplicate.\n\n` +
+              `Use apollo_update_contact with this contact_id to change it, or pass skip_duplicate_check to create anyway.\n\n` +
+              `Existing contact:`,
+        summary,
+        structured: { status: "duplicate" as const, matched_on: duplicate.matched_on, contact: summary },
+      };
+    }
+    const summary = summarizeContact(created.contact);
+    return {
+      text: `Contact created:\n`,
+      summary,
+      data: created,
+      structured: { status: "created" as const, contact: summary },
+    };
+  },
+});
+
+tools.define({
+  name: "apollo_update_contact",
+  description: "Update fields of an existing contact in your Apollo workspace.",
+  effect: "write",
+  schema: UpdateContactSchema,
+  outputSchema: z.object({
+    contact: ContactOutput,
+  }),
+  handler: async ({ contact_id, ...fields }, { client }) => client.updateContact(contact_id, fields),
+  format: (result) => {
+    const summary = summarizeContact(result.contact);
+    return {
+      text: `Contact updated:\n`,
+      summary,
+      data: result,
+      structured: { contact: summary },
+    };
+  },
+});
+
+tools.define({
+  name: "apollo_search_contacts",
+  description: "Search contacts saved in your Apollo workspace (not Apollo's global database; use apollo_search_people for that).",
+  schema: SearchContactsSchema,
+  outputSchema: z.object({
+    contacts: z.array(ContactOutput),
+    pagination: PaginationOutput,
+  }),
+  handler: async (validated, { client }) => {
+    const params: ContactSearchParams = {
+      page: validated.page,
+      per_page: validated.per_page,
+    };
+
+    if (validated.keywords) params.q_keywords = validated.keywords;
+    if (validated.contact_stage_ids) params.contact_stage_ids = validated.contact_stage_ids;
+    if (validated.sort_by_field) params.sort_by_field = validated.sort_by_field;
+    if (validated.sort_ascending !== undefined) params.sort_ascending = validated.sort_ascending;
+
+    return client.searchContacts(params);
+  },
+  format: (result) => {
+    const contacts = result.contacts || [];
+    const summary = contacts.map(summarizeContact);
+    return {
+      text: `Found ${result.pagination?.total_entries ?? contacts.length} contacts\n\nContacts:`,
+      summary,
+      data: result,
+      records: contacts,
+      structured: { contacts: summary, pagination: summarizePagination(result) },
+    };
+  },
+});
+
+tools.define({
+  name: "apollo_update_contact_stage",
+  description: "Move one or more contacts to a contact stage.",
+  effect: "write",
+  schema: UpdateContactStageSchema,
+  outputSchema: z.object({
+    contact_ids: z.array(z.string()),
+    contact_stage_id: z.string(),
+  }),
+  handler: async ({ contact_ids, contact_stage_id }, { client }) => client.updateContactStages(contact_ids, contact_stage_id),
+  format: (result, { contact_ids, contact_stage_id }) => ({
+    text: `Moved ${contact_ids.length} contacts to stage ${contact_stage_id}`,
+    data: result,
+    structured: { contact_ids, contact_stage_id },
+  }),
+});
+
+tools.define({
+  name: "apollo_get_contact_stages",
+  description: "List the contact stages configured in your Apollo workspace with their IDs.",
+  schema: z.object({}),
+  outputSchema: z.object({
+    stages: z.array(z.object({
+      id: z.string(),
+      name: z.string().nullish(),
+      category: z.string().nullish(),
+      display_order: z.number().nullish(),
+    })),
+  }),
+  handler: async (_, { client }) => client.getContactStages(),
+  format: (result) => {
+    const stages = result.contact_stages || [];
+    const summary = stages.map((s) => ({
+      id: s.id,
+      name: s.name,
+      category: s.category,
+      display_order: s.display_order,
+    }));
+    return {
+      text: `Found ${stages.length} contact stages\n\nStages:`,
+      summary,
+      structured: { stages: summary },
+    };
+  },
+});
+
+tools.define({
+  name: "apollo_create_account",
+  description: "Create an account (company) in your Apollo workspace. With enrich_from_domain, an enriched organization is promoted into the account with its domain, industry and employee count. Skips creation when an account with the same domain exists; existing accounts are looked up by name and by the domain's first label.",
+  effect: "write",
+  schema: CreateAccountSchema,
+  outputSchema: z.object({
+    status: z.enum(["created", "duplicate", "organization_not_found"]),
+    account: AccountOutput.nullable(),
+  }),
+  handler: async ({ enrich_from_domain, skip_duplicate_check, ...explicit }, { client }) => {
+    let fields: AccountFields = explicit;
+    if (enrich_from_domain) {
+      const { result: enriched } = await client.enrichOrganization(explicit.domain!);
+      if (!enriched.organization) return { fields, notFound: true };
+      fields = accountFieldsFromOrganization(enriched.organization, explicit);
+    }
+
+    if (!skip_duplicate_check) {
+      const duplicate = await client.findDuplicateAccount(fields);
+      if (duplicate) return { fields, duplicate };
+    }
+
+    return { fields, created: await client.createAccount(fields) };
+  },
+  format: ({ fields, notFound, duplicate, created }) => {
+    if (notFound) {
+      return {
+        text: `No organization found for ${fields.domain}; account not created. Retry without enrich_from_domain to create it from the given fields.`,
+        structured: { status: "organization_not_found" as const, account: null },
+      };
+    }
+    if (duplicate) {
+      const summary = summarizeAccount(duplicate);
+      return {
+        text: `Account already exists for ${fields.domain}, not creating a duplicate.\n\n` +
+              `Use apollo_update_account with this account_id to change it, or pass skip_duplicate_check to create anyway.\n\n` +
+              `Existing account:`,
+        summary,
+        structured: { status: "duplicate" as const, account: summary },
+      };
+    }
+    const summary = summarizeAccount({ ...fields, ...created!.account });
+    return {
+      text: `Account created:\n`,
+      summary,
+      data: created,
+      structured: { status: "created" as const, account: summary },
+    };
+  },
+});
+
+tools.define({
+  name: "apollo_update_account",
+  description: "Update fields of an existing account in your Apollo workspace.",
+  effect: "write",
+  schema: UpdateAccountSchema,
+  outputSchema: z.object({
+    account: AccountOutput,
+  }),
+  handler: async ({ account_id, ...fields }, { client }) => client.updateAccount(account_id, fields),
+  format: (result) => {
+    const summary = summarizeAccount(result.account);
+    return {
+      text: `Account updated:\n`,
+      summary,
+      data: result,
+      structured: { account: summary },
+    };
+  },
+});
+
+tools.define({
+  name: "apollo_search_accounts",
+  description: "Search accounts saved in your Apollo workspace (not Apollo's global database; use apollo_search_organizations for that).",
+  schema: SearchAccountsSchema,
+  outputSchema: z.object({
+    accounts: z.array(AccountOutput),
+    pagination: PaginationOutput,
+  }),
+  handler: async (validated, { client }) => {
+    const params: AccountSearchParams = {
+      page: validated.page,
+      per_page: validated.per_page,
+    };
+
+    if (validated.keywords) params.q_organization_name = validated.keywords;
+    if (validated.account_stage_ids) params.account_stage_ids = validated.account_stage_ids;
+    if (validated.sort_by_field) params.sort_by_field = validated.sort_by_field;
+    if (validated.sort_ascending !== undefined) params.sort_ascending = validated.sort_ascending;
+
+    return client.searchAccounts(params);
+  },
+  format: (result) => {
+    const accounts = result.accounts || [];
+    const summary = accounts.map(summarizeAccount);
+    return {
+      text: `Found ${result.pagination?.total_entries ?? accounts.length} accounts\n\nAccounts:`,
+      summary,
+      data: result,
+      records: accounts,
+      structured: { accounts: summary, pagination: summarizePagination(result) },
+    };
+  },
+});
+
+tools.define({
+  name: "apollo_update_account_owners",
+  description: "Assign one owner to many accounts at once.",
+  effect: "write",
+  schema: UpdateAccountOwnersSchema,
+  outputSchema: z.object({
+    account_ids: z.array(z.string()),
+    owner_id: z.string(),
+  }),
+  handler: async ({ account_ids, owner_id }, { client }) => client.updateAccountOwners(account_ids, owner_id),
+  format: (result, { account_ids, owner_id }) => ({
+    text: `Assigned ${account_ids.length} accounts to owner ${owner_id}`,
+    data: result,
+    structured: { account_ids, owner_id },
+  }),
+});
+
+tools.define({
+  name: "apollo_add_contacts_to_sequence",
+  description: "Enroll contacts in a sequence, sending from one of your email accounts. Always checks that the sequence and the sender are active first; use dry_run to only run that check. Requires master API key.",
+  requires: ["master_key"],
+  effect: "outreach",
+  readsOnly: (validated) => validated.dry_run,
+  schema: AddContactsToSequenceSchema,
+  outputSchema: z.object({
+    enrolled: z.boolean(),
+    enrolled_count: z.number(),
+    check: z.object({
+      ok: z.boolean(),
+      problems: z.array(z.string()),
+      sequence: z.object({ id: z.string(), name: z.string(), active: z.boolean() }).optional(),
+      email_account: z.object({ id: z.string(), email: z.string(), active: z.boolean() }).optional(),
+    }),
+  }),
+  handler: async (validated, { client }) => {
+    const check = await client.checkSequenceEnrollment(validated.sequence_id, validated.email_account_id);
+    if (!check.ok || validated.dry_run) return { check };
+
+    const result = await client.addContactsToSequence(
+      validated.sequence_id,
+      validated.contact_ids,
+      validated.email_account_id,
+      { addIfInOtherSequences: validated.add_if_in_other_sequences }
+    );
+    return { check, result };
+  },
+  format: ({ check, result }, validated) => {
+    if (!result) {
+      return {
+        text: (check.ok
+                ? `Dry run: ${validated.contact_ids.length} contacts can be enrolled. Nobody was enrolled.\n\n`
+                : `Not enrolling anyone:\n- ${check.problems.join("\n- ")}\n\n`) +
+              `Check:`,
+        summary: check,
+        structured: { enrolled: false, enrolled_count: 0, check },
+      };
+    }
+
+    const enrolled = result.contacts || [];
+    return {
+      text: `Enrolled ${enrolled.length} of ${validated.contact_ids.length} contacts in "${check.sequence!.name}" ` +
+            `sending from ${check.email_account!.email}`,
+      data: result,
+      structured: { enrolled: true, enrolled_count: enrolled.length, check },
+    };
+  },
+});
+
+tools.define({
+  name: "apollo_update_sequence_contacts",
+  description: "Remove contacts from sequences, pause them, or mark them as finished. Requires master API key.",
+  requires: ["master_key"],
+  effect: "outreach",
+  schema: UpdateSequenceContactsSchema,
+  outputSchema: z.object({
+    action: z.enum(["remove", "pause", "finish"]),
+    sequence_ids: z.array(z.string()),
+    contact_ids: z.array(z.string()),
+  }),
+  handler: async ({ sequence_ids, contact_ids, action }, { client }) =>
+    client.updateSequenceMembership(sequence_ids, contact_ids, action),
+  format: (result, { sequence_ids, contact_ids, action }) => ({
+    text: `Applied ${action} to ${contact_ids.length} contacts in ${sequence_ids.length} sequences`,
+    data: result,
+    structured: { action, sequence_ids, contact_ids },
+  }),
+});
+
+const AuditEntryOutput = z.object({
+  at: z.string(),
+  type: z.enum(["tool", "apollo"]),
+  call_id: z.string().optional(),
+  tool: z.string().optional(),
+  tenant: z.string().optional(),
+  status: z.enum(["ok", "error"]),
+  latency_ms: z.number(),
+  result_counts: z.record(z.number()).optional(),
+  credits: z.number().optional(),
+  error: z.string().optional(),
+  client: z.string().optional(),
+  session: z.string().optional(),
+  arguments: z.unknown().optional(),
+  method: z.string().optional(),
+  endpoint: z.string().optional(),
+  http_status: z.number().nullable().optional(),
+});
+
+tools.define({
+  name: "apollo_get_audit_log",
+  description: "Query the audit log of tool calls and the Apollo API requests they made: who called which tool when, with " +
+               "what (redacted) arguments, how many records came back and what it cost. Newest entries first.",
+  schema: GetAuditLogSchema,
+  outputSchema: z.object({ entries: z.array(AuditEntryOutput), redaction: z.enum(REDACTION_MODES) }),
+  handler: async ({ since, ...filter }, { audit }) => {
+    if (!audit) throw new McpError(ErrorCode.InvalidRequest, "Audit logging is disabled (APOLLO_AUDIT=off)");
+    // Callers only see their own workspace's entries.
+    const entries = await audit.query({
+      ...filter,
+      since: since && new Date(since).toISOString(),
+      tenant: currentCall()?.tenant,
+    });
+    return { entries, redaction: audit.redaction };
+  },
+  format: ({ entries, redaction }) => ({
+    text: entries.length > 0
+      ? `Found ${entries.length} audit entries (newest first, arguments redacted with ${redaction}):\n`
+      : "No audit entries match.",
+    summary: entries.length > 0 ? entries : undefined,
+    records: entries,
+    structured: { entries, redaction },
+  }),
+});
+
+const BudgetOutput = z.object({ credits: z.number(), budget: z.number().nullable(), remaining: z.number().nullable() });
+
+tools.define({
+  name: "apollo_get_usage",
+  description: "Get the Apollo credits this server has spent, by day and by tool, and what is left of the daily and session " +
+               "credit budgets. Check this before large searches or enrichments.",
+  schema: GetUsageSchema,
+  outputSchema: z.object({
+    today: BudgetOutput,
+    session: BudgetOutput,
+    by_day: z.array(z.object({ date: z.string(), calls: z.number(), credits: z.number() })),
+    by_tool: z.array(z.object({ tool: z.string(), calls: z.number(), credits: z.number() })),
+  }),
+  handler: async ({ days }, { client }) => {
+    const report = await client.usageReport(days);
+    if (!report) throw new McpError(ErrorCode.InvalidRequest, "Credit usage is not tracked for this Apollo client");
+    return report;
+  },
+  format: (report, { days }) => {
+    const budget = (label: string, status: z.infer<typeof BudgetOutput>) =>
+      `${label}: ${status.credits} credits` + (status.budget === null ? " (no budget)" : ` of ${status.budget} (${status.remaining} left)`);
+    return {
+      text: [
+        budget("Today (UTC)", report.today),
+        budget("This session", report.session),
+        "",
+        `Spend over the last ${days} UTC days:`,
+      ].join("\n"),
+      summary: { by_tool: report.by_tool, by_day: report.by_day },
+      structured: report,
+    };
+  },
+});
+
+tools.define({
+  name: "apollo_get_rate_limit_status",
+  description: "Get the remaining Apollo API budget per endpoint (per minute, hour and day) as last reported by Apollo. Check this before starting a large search or bulk enrichment.",
+  schema: GetRateLimitStatusSchema,
+  outputSchema: z.object({
+    endpoints: z.array(z.object({
+      endpoint: z.string(),
+      queued: z.number(),
+      windows: z.record(z.object({ limit: z.number(), remaining: z.number(), full_in_seconds: z.number() })),
+    })),
+  }),
+  handler: async ({ endpoint }, { client }) => client.getRateLimitStatus(endpoint),
+  format: (status, { endpoint }) => {
+    if (status.length === 0) {
+      return {
+        text: endpoint
+          ? `No rate limit information for ${endpoint} yet. Limits are learned from Apollo's response headers after the first call.`
+          : "No rate limit information yet. Limits are learned from Apollo's response headers after the first call.",
+        structured: { endpoints: [] },
+      };
+    }
+    return { text: `Rate Limit Status:\n`, summary: status, structured: { endpoints: status } };
+  },
+});
+
+// Throws when the policy names a tool that does not exist, so a typo cannot leave a tool unguarded.
+export function validatePolicy(policy: ToolPolicy) {
+  const unknown = policy.toolNames.filter((name) => !tools.get(name));
+  if (unknown.length > 0) {
+    throw new Error(`The tool policy names unknown tools: ${unknown.join(", ")}`);
+  }
+}
+
+export interface ServerOptions {
+  policy?: ToolPolicy;
+  // Where tool calls are logged; the Apollo clients should be given the same log for their requests.
+  audit?: AuditLog;
+}
+
+export function createServer(
+  clients: ClientPool<ApolloClient>,
+  credentials: CredentialOptions,
+  files: FileAccess,
+  { policy = new ToolPolicy(), audit }: ServerOptions = {}
+) {
+  const unavailable = unavailableToolModeFromEnv();
+  const server = new Server({
+    name: "apollo-io-mcp",
+    version: "0.1.0",
+  }, {
+    capabilities: {
+      tools: {},
+    },
+  });
+
+  server.setRequestHandler(ListToolsRequestSchema, async (_request, extra) => {
+    let capabilities: Capabilities = {};
+    try {
+      const tenant = resolveTenant({ headers: extra.requestInfo?.headers, authInfo: extra.authInfo }, credentials);
+      capabilities = await clients.get(tenant).capabilities();
+    } catch (error) {
+      // Without credentials yet, list every tool; calls will explain what is missing.
+      if (!(error instanceof CredentialError)) throw error;
+    }
+    return { tools: tools.list({ capabilities, unavailable, policy }) };
+  });
+
+  // The policy is enforced here, before any tool runs, rather than in each tool, so no write can skip it.
+  // Confirmation shows the validated arguments, so the user approves exactly what will run.
+  async function authorize(
+    name: string,
+    args: unknown,
+    capabilities: Capabilities,
+    sendRequest: RequestExtra["sendRequest"]
+  ) {
+    const tool = tools.get(name);
+    // Unknown and unavailable tools fail in tools.call without asking the user anything.
+    if (!tool || missingCapabilities(tool.requires, capabilities).length > 0) return;
+    const validated = tool.schema.parse(args ?? {});
+    const effect = tool.readsOnly?.(validated) ? "read" : tool.effect;
+    const access = policy.access(name, effect);
+    if (access === "allow") return;
+    if (access === "block") throw new McpError(ErrorCode.InvalidRequest, policy.blockedReason(name, effect));
+
+    if (!server.getClientCapabilities()?.elicitation) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `${name} needs the user's confirmation, but this MCP client cannot ask for it (no elicitation support). ` +
+        `Set ${name} to "allow" in APOLLO_POLICY_FILE to run it without confirmation.`
+      );
+    }
+    const answer = await sendRequest({
+      method: "elicitation/create",
+      params: {
+        message: confirmationMessage(name, effect ?? "read", validated),
+        requestedSchema: {
+          type: "object",
+          properties: { confirm: { type: "boolean", title: `Run ${name}` } },
+          required: ["confirm"],
+        },
+      },
+    }, ElicitResultSchema);
+    if (answer.action !== "accept" || answer.content?.confirm !== true) {
+      throw new McpError(ErrorCode.InvalidRequest, `The user did not confirm ${name}; nothing was run.`);
+    }
+  }
+
+  async function dispatch(name: string, args: unknown, call: ToolCall, extra: RequestExtra) {
+    let client: ApolloClient | undefined;
+    try {
+      const tenant = resolveTenant({ headers: extra.requestInfo?.headers, authInfo: extra.authInfo }, credentials);
+      call.tenant = tenant.id;
+      const tenantClient = (client = clients.get(tenant));
+      const capabilities = await tenantClient.capabilities();
+      await authorize(name, args, capabilities, extra.sendRequest);
+      const tenantFiles = files.confine ? { ...files, dataDir: path.join(files.dataDir, tenant.id) } : files;
+      return await tools.call(name, args, { client: tenantClient, files: tenantFiles, audit }, capabilities);
+    } catch (error) {
+      if (error instanceof McpError) throw error;
+
+      if (error instanceof CredentialError || error instanceof CreditBudgetError) {
+        throw new McpError(ErrorCode.InvalidRequest, error.message);
+      }
+
+      if (error instanceof z.ZodError) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid parameters: ${error.errors.map((e) => e.message).join(", ")}`
+        );
+      }
+
+      if (error instanceof ApolloAuthenticationError) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          "Invalid Apollo API key. Check APOLLO_API_KEY, the selected profile or the X-Apollo-Api-Key header."
+        );
+      }
+
+      if (error instanceof ApolloPermissionError) {
+        const requires = tools.get(name)?.requires ?? [];
+        requires.forEach((capability) => client?.noteCapability(capability, false));
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          requires.includes("master_key")
+            ? `Apollo refused ${name} (403). ${CAPABILITY_HINTS.master_key}`
+            : `Apollo refused ${name} (403)${error.detail ? `: ${error.detail}` : ""}. Your API key or Apollo plan does not allow this endpoint.`
+        );
+      }
+
+      const attempts = error instanceof ApolloError && error.attempts > 1 ? ` (gave up after ${error.attempts} attempts)` : "";
+
+      if (error instanceof ApolloRateLimitError) {
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Apollo API rate limit exceeded${attempts}. ` +
+          (error.retryAfterMs !== undefined
+            ? `Apollo asked to wait ${describeWait(error.retryAfterMs)} before retrying.`
+            : "Please wait and try again.")
+        );
+      }
+
+      if (error instanceof ApolloServerError) {
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Apollo API error ${error.status}${attempts}${error.detail ? `: ${error.detail}` : ""}`
+        );
+      }
+
+      throw new McpError(
+        ErrorCode.InternalError,
+        `${(error as Error).message || "An unexpected error occurred"}${attempts}`
+      );
+    }
+  }
+
+  // Every call is audited once it settles; the Apollo requests it made are logged by the client under the
+  // same call id.
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    const call = newCall(name);
+    const started = Date.now();
+    const logCall = (outcome: { status: "ok" | "error"; result_counts?: Record<string, number>; error?: string }) => {
+      const client = server.getClientVersion();
+      audit?.write({
+        type: "tool",
+        call_id: call.id,
+        tool: name,
+        tenant: call.tenant,
+        client: client && `${client.name}/${client.version}`,
+        session: extra.sessionId,
+        arguments: sanitizeArguments(args ?? {}, audit.redaction),
+        latency_ms: Date.now() - started,
+        credits: call.credits,
+        ...outcome,
+      });
+    };
+    try {
+      const result = await runInCall(call, () => dispatch(name, args, call, extra));
+      logCall({ status: "ok", result_counts: countRecords(result.structuredContent) });
+      return result;
+    } catch (error) {
+      logCall({ status: "error", error: (error as Error).message });
+      throw error;
+    }
+  });
+
+  return server;
+}
@@ -0,0 +1,171 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import path from "node:path";
+import { currentCall } from "./call-context.js";
+
+export interface UsageOptions {
+  // JSONL ledger of metered calls; without it usage is only tracked in memory.
+  file?: string;
+  // Credits allowed per UTC day and per server process; unset means unlimited.
+  dailyBudget?: number;
+  sessionBudget?: number;
+  now?: () => number;
+}
+
+export interface UsageEntry {
+  at: string;
+  tool: string;
+  endpoint: string;
+  credits: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  credits: number;
+}
+
+export interface BudgetStatus {
+  credits: number;
+  budget: number | null;
+  remaining: number | null;
+}
+
+export interface UsageReport {
+  today: BudgetStatus;
+  session: BudgetStatus;
+  by_day: ({ date: string } & UsageTotals)[];
+  by_tool: ({ tool: string } & UsageTotals)[];
+}
+
+function readBudget(value: string | undefined): number | undefined {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+export function usageOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): { dir: string; dailyBudget?: number; sessionBudget?: number } {
+  return {
+    dir: env.APOLLO_USAGE_DIR || path.join(homedir(), ".local", "share", "apollo-io-mcp", "usage"),
+    dailyBudget: readBudget(env.APOLLO_DAILY_CREDIT_BUDGET),
+    sessionBudget: readBudget(env.APOLLO_SESSION_CREDIT_BUDGET),
+  };
+}
+
+export class CreditBudgetError extends Error {
+  constructor(readonly scope: "daily" | "session", readonly budget: number, readonly spent: number) {
+    super(
+      `The ${scope} Apollo credit budget of ${budget} is used up (${spent} spent` +
+      (scope === "daily" ? " today, UTC)" : " since the server started)") +
+      `. Raise APOLLO_${scope.toUpperCase()}_CREDIT_BUDGET or wait ${scope === "daily" ? "until tomorrow" : "for a restart"}.`
+    );
+    this.name = "CreditBudgetError";
+  }
+}
+
+const day = (timestamp: number | string) => new Date(timestamp).toISOString().slice(0, 10);
+
+function add(map: Map<string, UsageTotals>, key: string, credits: number) {
+  const totals = map.get(key) ?? { calls: 0, credits: 0 };
+  map.set(key, { calls: totals.calls + 1, credits: totals.credits + credits });
+}
+
+// Counts the credits each metered Apollo call consumed and refuses new calls once a budget is spent.
+// The ledger is append-only, so several server processes can share it; each only reads it at startup.
+export class UsageTracker {
+  private now: () => number;
+  private entries: UsageEntry[] = [];
+  private session: UsageTotals = { calls: 0, credits: 0 };
+  // Credits that calls in flight may still consume, so concurrent calls cannot overshoot a budget together.
+  private reserved = 0;
+  private loaded?: Promise<void>;
+
+  constructor(private options: UsageOptions = {}) {
+    this.now = options.now ?? Date.now;
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= (async () => {
+      if (!this.options.file) return;
+      const text = await readFile(this.options.file, "utf8").catch(() => "");
+      for (const line of text.split("\n")) {
+        try {
+          if (line) this.entries.push(JSON.parse(line));
+        } catch {
+          // A line cut short by a crash; the rest of the ledger is still good.
+        }
+      }
+    })();
+    return this.loaded;
+  }
+
+  private spentToday(): number {
+    const today = day(this.now());
+    return this.entries.reduce((total, e) => total + (day(e.at) === today ? e.credits : 0), 0);
+  }
+
+  // Throws when the call could take a budget past its limit. estimate is the most the call can cost; calls
+  // whose cost is only known afterwards (searches) pass 0 and are refused once the budget is spent.
+  private ensureWithin(estimate: number) {
+    const budgets = [
+      ["daily", this.options.dailyBudget, this.spentToday()],
+      ["session", this.options.sessionBudget, this.session.credits],
+    ] as const;
+    for (const [scope, budget, spent] of budgets) {
+      if (budget === undefined) continue;
+      const committed = spent + this.reserved;
+      if (committed >= budget || committed + estimate > budget) throw new CreditBudgetError(scope, budget, spent);
+    }
+  }
+
+  async charge<T>(endpoint: string, estimate: number, request: () => Promise<T>, creditsOf: (data: T) => number): Promise<T> {
+    await this.load();
+    this.ensureWithin(estimate);
+    this.reserved += estimate;
+    try {
+      const data = await request();
+      await this.record(endpoint, creditsOf(data));
+      return data;
+    } finally {
+      this.reserved -= estimate;
+    }
+  }
+
+  private async record(endpoint: string, credits: number) {
+    const call = currentCall();
+    if (call) call.credits += credits;
+    const entry: UsageEntry = { at: new Date(this.now()).toISOString(), tool: call?.tool ?? "unknown", endpoint, credits };
+    this.entries.push(entry);
+    this.session = { calls: this.session.calls + 1, credits: this.session.credits + credits };
+    if (this.options.file) {
+      // The request has already been paid for; an unwritable ledger must not cost the caller its result.
+      const file = this.options.file;
+      await mkdir(path.dirname(file), { recursive: true })
+        .then(() => appendFile(file, `${JSON.stringify(entry)}\n`, "utf8"))
+        .catch((error) => console.error("Failed to write the usage ledger:", error.message));
+    }
+  }
+
+  // Spend over the last `days` UTC days, today included: per day newest first, per tool highest spend first.
+  async report(days: number): Promise<UsageReport> {
+    await this.load();
+    const since = day(this.now() - (days - 1) * 86_400_000);
+    const byDay = new Map<string, UsageTotals>();
+    const byTool = new Map<string, UsageTotals>();
+    for (const entry of this.entries) {
+      if (day(entry.at) < since) continue;
+      add(byDay, day(entry.at), entry.credits);
+      add(byTool, entry.tool, entry.credits);
+    }
+
+    const status = (credits: number, budget?: number): BudgetStatus => ({
+      credits,
+      budget: budget ?? null,
+      remaining: budget === undefined ? null : Math.max(0, budget - credits),
+    });
+    return {
+      today: status(this.spentToday(), this.options.dailyBudget),
+      session: status(this.session.credits, this.options.sessionBudget),
+      by_day: [...byDay].map(([date, totals]) => ({ date, ...totals })).sort((a, b) => b.date.localeCompare(a.date)),
+      by_tool: [...byTool].map(([tool, totals]) => ({ tool, ...totals })).sort((a, b) => b.credits - a.credits),
+    };
+  }
+}
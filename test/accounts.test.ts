@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { accountFieldsFromOrganization, findDuplicateAccount } from '../src/accounts';
+
+const org = {
+  id: 'org1',
+  name: 'Apollo.io',
+  primary_domain: 'apollo.io',
+  industry: 'information technology & services',
+  estimated_num_employees: 800,
+  primary_phone: { number: '+1 415 555 0100' },
+  raw_address: '535 Mission St, San Francisco, CA',
+};
+
+describe('accountFieldsFromOrganization', () => {
+  it('should carry over enriched organization fields', () => {
+    expect(accountFieldsFromOrganization(org)).toEqual({
+      name: 'Apollo.io',
+      domain: 'apollo.io',
+      phone: '+1 415 555 0100',
+      raw_address: '535 Mission St, San Francisco, CA',
+      organization_id: 'org1',
+      industry: 'information technology & services',
+      estimated_num_employees: 800,
+    });
+  });
+
+  it('should let explicit fields override enriched ones', () => {
+    const fields = accountFieldsFromOrganization(org, { name: 'Apollo', owner_id: 'user1', phone: undefined });
+    expect(fields.name).toBe('Apollo');
+    expect(fields.owner_id).toBe('user1');
+    expect(fields.phone).toBe('+1 415 555 0100');
+  });
+
+  it('should drop fields the organization does not have', () => {
+    expect(accountFieldsFromOrganization({ name: 'Tiny', primary_domain: 'tiny.dev' })).toEqual({
+      name: 'Tiny',
+      domain: 'tiny.dev',
+    });
+  });
+});
+
+describe('findDuplicateAccount', () => {
+  const accounts = [
+    { id: 'a1', name: 'Apollo', domain: 'www.apollo.io' },
+    { id: 'a2', name: 'Acme', organization: { primary_domain: 'acme.com' } },
+  ];
+
+  it('should match accounts on normalized domain', () => {
+    expect(findDuplicateAccount({ domain: 'https://apollo.io' }, accounts)?.id).toBe('a1');
+    expect(findDuplicateAccount({ domain: 'acme.com' }, accounts)?.id).toBe('a2');
+  });
+
+  it('should not match on name alone', () => {
+    expect(findDuplicateAccount({ name: 'Apollo' }, accounts)).toBeUndefined();
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { compareSequences, rankSequences, sequenceIssues, sequenceStats, totalStats } from '../src/analytics';
+
+function sequence(id: string, contacted: number, counts: { bounced?: number; replied?: number; interested?: number; opt_out?: number } = {}) {
+  return sequenceStats({
+    id,
+    name: `Sequence ${id}`,
+    active: true,
+    num_contacted_people: contacted,
+    num_bounced_people: counts.bounced,
+    num_replied_people: counts.replied,
+    num_interested_people: counts.interested,
+    num_opt_out_people: counts.opt_out,
+  });
+}
+
+describe('sequenceStats', () => {
+  it('should compute rates from Apollo counts', () => {
+    expect(sequence('a', 200, { bounced: 10, replied: 9, interested: 3, opt_out: 1 })).toMatchObject({
+      contacted: 200,
+      bounce_rate: 0.05,
+      reply_rate: 0.045,
+      interested_rate: 0.015,
+      opt_out_rate: 0.005,
+    });
+  });
+
+  it('should leave rates empty when nobody was contacted', () => {
+    expect(sequence('a', 0)).toMatchObject({ contacted: 0, bounced: 0, reply_rate: null, bounce_rate: null });
+  });
+});
+
+describe('totalStats', () => {
+  it('should weight rates by contacted people', () => {
+    const totals = totalStats([sequence('a', 100, { replied: 10 }), sequence('b', 300, { replied: 10 })]);
+    expect(totals).toMatchObject({ sequences: 2, contacted: 400, replied: 20, reply_rate: 0.05 });
+    expect(totals).not.toHaveProperty('id');
+  });
+});
+
+describe('sequenceIssues', () => {
+  it('should flag high bounce and opt-out rates and low reply rates', () => {
+    expect(sequenceIssues(sequence('a', 100, { bounced: 8, opt_out: 3 }))).toEqual([
+      'bounce rate 8.0% is above 5.0%',
+      'opt-out rate 3.0% is above 2.0%',
+      'reply rate 0.0% is below 1.0%',
+    ]);
+  });
+
+  it('should leave healthy and small sequences alone', () => {
+    expect(sequenceIssues(sequence('a', 100, { bounced: 2, replied: 5 }))).toEqual([]);
+    expect(sequenceIssues(sequence('a', 10, { bounced: 5 }))).toEqual([]);
+    expect(sequenceIssues(sequence('a', 0), { max_bounce_rate: 0.05, max_opt_out_rate: 0.02, min_reply_rate: 0.01, min_contacted: 0 }))
+      .toEqual([]);
+  });
+});
+
+describe('rankSequences', () => {
+  const stats = [
+    sequence('low', 100, { replied: 1, bounced: 1 }),
+    sequence('high', 100, { replied: 9, bounced: 9 }),
+    sequence('empty', 0),
+    sequence('mid', 100, { replied: 5, bounced: 5 }),
+  ];
+
+  it('should rank reply rate highest first', () => {
+    expect(rankSequences(stats, 'reply_rate').map((s) => s.id)).toEqual(['high', 'mid', 'low', 'empty']);
+  });
+
+  it('should rank bounce rate lowest first', () => {
+    expect(rankSequences(stats, 'bounce_rate').map((s) => s.id)).toEqual(['low', 'mid', 'high', 'empty']);
+  });
+});
+
+describe('compareSequences', () => {
+  it('should report differences and the better sequence per metric', () => {
+    const metrics = compareSequences(sequence('a', 100, { replied: 5, bounced: 2 }), sequence('b', 200, { replied: 20, bounced: 2 }));
+    expect(metrics.find((m) => m.metric === 'reply_rate')).toEqual({ metric: 'reply_rate', a: 0.05, b: 0.1, difference: 0.05, better: 'b' });
+    expect(metrics.find((m) => m.metric === 'bounce_rate')).toEqual({ metric: 'bounce_rate', a: 0.02, b: 0.01, difference: -0.01, better: 'b' });
+    expect(metrics.find((m) => m.metric === 'opt_out_rate')?.better).toBe('tie');
+  });
+
+  it('should not judge a sequence nobody was contacted by', () => {
+    const metrics = compareSequences(sequence('a', 0), sequence('b', 100, { replied: 5 }));
+    expect(metrics.find((m) => m.metric === 'reply_rate')).toMatchObject({ difference: null, better: null });
+  });
+});
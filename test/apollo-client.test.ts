@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server as HttpServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  ApolloAuthenticationError,
+  ApolloClient,
+  ApolloError,
+  ApolloNetworkError,
+  ApolloPermissionError,
+  ApolloRateLimitError,
+  ApolloRequestError,
+  ApolloServerError,
+} from '../src/apollo-client';
+
+// Answers each path with a fixed status and body, counting requests so retries can be observed.
+const routes: Record<string, { status: number; body: unknown; headers?: Record<string, string> }> = {
+  '/v1/mixed_people/search': { status: 200, body: { people: [{ id: 'p1', name: 'Ada' }], pagination: { total_entries: 1 } } },
+  '/v1/organizations/enrich': { status: 401, body: { error: 'Invalid access credentials.' } },
+  '/v1/email_accounts': { status: 403, body: { error: 'This endpoint requires a master API key' } },
+  '/v1/contacts': { status: 422, body: { message: 'email is invalid' } },
+  '/v1/contact_stages': { status: 503, body: {} },
+  '/v1/emailer_campaigns/search': { status: 429, body: {}, headers: { 'retry-after': '3600' } },
+};
+
+describe('ApolloClient', () => {
+  let server: HttpServer;
+  let baseUrl: string;
+  const hits: Record<string, number> = {};
+  const received: { path?: string; apiKey?: string } = {};
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const path = req.url!.split('?')[0];
+      hits[path] = (hits[path] ?? 0) + 1;
+      received.path = path;
+      received.apiKey = req.headers['x-api-key'] as string;
+      const route = routes[path] ?? { status: 404, body: {} };
+      res.writeHead(route.status, { 'content-type': 'application/json', ...route.headers }).end(JSON.stringify(route.body));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const client = () => new ApolloClient('test-key', { baseUrl, maxAttempts: 2, baseDelayMs: 1 });
+
+  it('should send requests to the configured base URL with the API key', async () => {
+    const result = await client().searchPeople({ person_titles: ['CTO'] });
+    expect(result.people?.[0]).toMatchObject({ id: 'p1', name: 'Ada' });
+    expect(received).toEqual({ path: '/v1/mixed_people/search', apiKey: 'test-key' });
+  });
+
+  it('should throw typed errors carrying the status and Apollo\'s explanation', async () => {
+    const auth = await client().enrichOrganization('acme.com').catch((error) => error);
+    expect(auth).toBeInstanceOf(ApolloAuthenticationError);
+    expect(auth).toMatchObject({ status: 401, detail: 'Invalid access credentials.', message: 'Apollo API error 401: Invalid access credentials.' });
+
+    const forbidden = await client().getEmailAccounts().catch((error) => error);
+    expect(forbidden).toBeInstanceOf(ApolloPermissionError);
+
+    const invalid = await client().createContact({ email: 'nope' }).catch((error) => error);
+    expect(invalid).toBeInstanceOf(ApolloRequestError);
+    expect(invalid.detail).toBe('email is invalid');
+  });
+
+  it('should report how many attempts a retried request made', async () => {
+    const error = await client().getContactStages().catch((error) => error);
+    expect(error).toBeInstanceOf(ApolloServerError);
+    expect(error).toBeInstanceOf(ApolloError);
+    expect(error).toMatchObject({ status: 503, attempts: 2, detail: undefined });
+    expect(hits['/v1/contact_stages']).toBe(2);
+  });
+
+  it('should not retry before the time Retry-After asks for', async () => {
+    const error = await client().searchSequences().catch((error) => error);
+    expect(error).toBeInstanceOf(ApolloRateLimitError);
+    expect(error).toMatchObject({ attempts: 1, retryAfterMs: 3_600_000 });
+    expect(error.message).toBe('Apollo API error 429 (Apollo asked to wait 60 minutes before retrying)');
+    expect(hits['/v1/emailer_campaigns/search']).toBe(1);
+  });
+
+  it('should raise a network error when Apollo cannot be reached', async () => {
+    const unreachable = new ApolloClient('test-key', { baseUrl: 'http://127.0.0.1:1/v1', maxAttempts: 1 });
+    const error = await unreachable.getContactStages().catch((error) => error);
+    expect(error).toBeInstanceOf(ApolloNetworkError);
+    expect(error.status).toBeUndefined();
+  });
+});
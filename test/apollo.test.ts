@@ -1,189 +1,118 @@
-import { describe, it, expect } from 'vitest';
-import { z } from 'zod';
-
-// Schema tests
-const SearchPeopleSchema = z.object({
-  keywords: z.string().optional(),
-  titles: z.array(z.string()).optional(),
-  locations: z.array(z.string()).optional(),
-  organization_ids: z.array(z.string()).optional(),
-  page: z.number().optional().default(1),
-  per_page: z.number().optional().default(10),
-});
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { startHarness, type Harness } from './support/harness';
 
-const EnrichPersonSchema = z.object({
-  first_name: z.string().optional(),
-  last_name: z.string().optional(),
-  email: z.string().optional(),
-  domain: z.string().optional(),
-  organization_name: z.string().optional(),
-});
+// Argument validation and result formatting of the search and enrichment tools, checked through the real
+// tools rather than copies of their schemas.
+describe('Apollo.io tool arguments and results', () => {
+  let harness: Harness;
 
-const EnrichOrganizationSchema = z.object({
-  domain: z.string(),
-});
+  beforeEach(async () => {
+    harness = await startHarness();
+  });
 
-const SearchOrganizationsSchema = z.object({
-  keywords: z.string().optional(),
-  locations: z.array(z.string()).optional(),
-  employee_ranges: z.array(z.string()).optional(),
-  page: z.number().optional().default(1),
-  per_page: z.number().optional().default(10),
-});
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  const lastBody = (route: string) => harness.apollo.calls(route).at(-1)?.body;
 
-describe('Apollo.io MCP Schema Validation', () => {
-  describe('SearchPeopleSchema', () => {
-    it('should validate valid search people params', () => {
-      const valid = {
+  describe('apollo_search_people', () => {
+    it('should map valid search params onto Apollo parameters', async () => {
+      await harness.call('apollo_search_people', {
         keywords: 'CTO',
         titles: ['Chief Technology Officer'],
         locations: ['San Francisco, CA'],
-        page: 1,
-        per_page: 10,
-      };
-      expect(() => SearchPeopleSchema.parse(valid)).not.toThrow();
+        page: 2,
+        per_page: 25,
+      });
+      expect(lastBody('POST /mixed_people/search')).toMatchObject({
+        q_keywords: 'CTO',
+        person_titles: ['Chief Technology Officer'],
+        person_locations: ['San Francisco, CA'],
+        page: 2,
+        per_page: 25,
+      });
     });
 
-    it('should use default values for page and per_page', () => {
-      const result = SearchPeopleSchema.parse({ keywords: 'engineer' });
-      expect(result.page).toBe(1);
-      expect(result.per_page).toBe(10);
+    it('should default page and per_page and allow empty params', async () => {
+      await harness.call('apollo_search_people', {});
+      expect(lastBody('POST /mixed_people/search')).toEqual({ page: 1, per_page: 10 });
     });
 
-    it('should allow empty params', () => {
-      expect(() => SearchPeopleSchema.parse({})).not.toThrow();
+    it('should reject unknown seniorities and email statuses', async () => {
+      for (const args of [{ seniorities: ['executive'] }, { email_statuses: ['valid'] }]) {
+        await expect(harness.call('apollo_search_people', args)).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+      }
+      expect(harness.apollo.calls('POST /mixed_people/search')).toHaveLength(0);
+
+      await harness.call('apollo_search_people', { seniorities: ['c_suite', 'vp'], email_statuses: ['verified', 'likely_to_engage'] });
+      expect(lastBody('POST /mixed_people/search')).toMatchObject({
+        person_seniorities: ['c_suite', 'vp'],
+        contact_email_status: ['verified', 'likely to engage'],
+      });
     });
-  });
 
-  describe('EnrichPersonSchema', () => {
-    it('should validate valid person enrichment params', () => {
-      const valid = {
-        email: 'john@example.com',
-        first_name: 'John',
-        last_name: 'Doe',
-      };
-      expect(() => EnrichPersonSchema.parse(valid)).not.toThrow();
-    });
+    it('should normalize employee ranges to Apollo format', async () => {
+      await harness.call('apollo_search_people', { employee_ranges: ['11-50', '51,200'] });
+      expect(lastBody('POST /mixed_people/search')).toMatchObject({ organization_num_employees_ranges: ['11,50', '51,200'] });
 
-    it('should allow only email', () => {
-      expect(() => EnrichPersonSchema.parse({ email: 'test@example.com' })).not.toThrow();
+      await expect(harness.call('apollo_search_people', { employee_ranges: ['small'] }))
+        .rejects.toMatchObject({ code: ErrorCode.InvalidParams });
     });
 
-    it('should allow only domain and name', () => {
-      const valid = {
-        domain: 'apollo.io',
-        organization_name: 'Apollo.io',
-      };
-      expect(() => EnrichPersonSchema.parse(valid)).not.toThrow();
+    it('should format each person with company and location', async () => {
+      const result = await harness.call('apollo_search_people', {});
+      expect((result.structuredContent as any).people[0]).toMatchObject({
+        name: 'Ada Lovelace',
+        company: 'Acme Analytics',
+        location: 'San Francisco, California',
+      });
     });
   });
 
-  describe('EnrichOrganizationSchema', () => {
-    it('should validate valid organization params', () => {
-      expect(() => EnrichOrganizationSchema.parse({ domain: 'apollo.io' })).not.toThrow();
-    });
-
-    it('should require domain field', () => {
-      expect(() => EnrichOrganizationSchema.parse({})).toThrow();
-    });
+  describe('apollo_enrich_person', () => {
+    it('should accept an email alone, or a name with a company', async () => {
+      await harness.call('apollo_enrich_person', { email: 'ada@acme.io' });
+      expect(lastBody('POST /people/match')).toEqual({ email: 'ada@acme.io' });
 
-    it('should accept various domain formats', () => {
-      expect(() => EnrichOrganizationSchema.parse({ domain: 'example.com' })).not.toThrow();
-      expect(() => EnrichOrganizationSchema.parse({ domain: 'sub.example.com' })).not.toThrow();
+      await harness.call('apollo_enrich_person', { first_name: 'Ada', domain: 'acme.io', organization_name: 'Acme Analytics' });
+      expect(lastBody('POST /people/match')).toEqual({ first_name: 'Ada', domain: 'acme.io', organization_name: 'Acme Analytics' });
     });
   });
 
-  describe('SearchOrganizationsSchema', () => {
-    it('should validate valid search organization params', () => {
-      const valid = {
-        keywords: 'SaaS',
-        locations: ['San Francisco'],
-        employee_ranges: ['1-10', '11-50'],
-        page: 1,
-        per_page: 25,
-      };
-      expect(() => SearchOrganizationsSchema.parse(valid)).not.toThrow();
-    });
-
-    it('should use default pagination values', () => {
-      const result = SearchOrganizationsSchema.parse({ keywords: 'tech' });
-      expect(result.page).toBe(1);
-      expect(result.per_page).toBe(10);
+  describe('apollo_enrich_organization', () => {
+    it('should require a domain', async () => {
+      await expect(harness.call('apollo_enrich_organization', {})).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+      expect(harness.apollo.calls('POST /organizations/enrich')).toHaveLength(0);
     });
 
-    it('should allow empty params', () => {
-      expect(() => SearchOrganizationsSchema.parse({})).not.toThrow();
-    });
-  });
-});
-
-describe('Apollo.io Response Format', () => {
-  it('should format person search results correctly', () => {
-    const mockPerson = {
-      name: 'John Doe',
-      title: 'CTO',
-      organization: { name: 'Test Corp' },
-      city: 'San Francisco',
-      state: 'California',
-      email: 'john@test.com',
-      linkedin_url: 'https://linkedin.com/in/johndoe',
-    };
-
-    const formatted = {
-      name: mockPerson.name,
-      title: mockPerson.title,
-      company: mockPerson.organization?.name,
-      location: `${mockPerson.city}, ${mockPerson.state}`,
-      email: mockPerson.email,
-      linkedin: mockPerson.linkedin_url,
-    };
-
-    expect(formatted).toEqual({
-      name: 'John Doe',
-      title: 'CTO',
-      company: 'Test Corp',
-      location: 'San Francisco, California',
-      email: 'john@test.com',
-      linkedin: 'https://linkedin.com/in/johndoe',
+    it('should format the enriched organization', async () => {
+      const result = await harness.call('apollo_enrich_organization', { domain: 'acme.io' });
+      expect(result.structuredContent).toMatchObject({
+        organization: {
+          name: 'Acme Analytics',
+          domain: 'acme.io',
+          industry: 'computer software',
+          employees: 240,
+          location: 'San Francisco, California',
+          founded: 2014,
+          technologies: [{ uid: 'salesforce' }, { uid: 'google_analytics' }],
+        },
+      });
     });
   });
 
-  it('should format organization enrichment results correctly', () => {
-    const mockOrg = {
-      name: 'Apollo.io',
-      primary_domain: 'apollo.io',
-      industry: 'information technology & services',
-      estimated_num_employees: 800,
-      city: 'San Francisco',
-      state: 'California',
-      short_description: 'AI-driven sales platform',
-      founded_year: 2015,
-      linkedin_url: 'https://linkedin.com/company/apolloio',
-      current_technologies: [{ uid: 'ai', name: 'AI', category: 'Other' }],
-    };
-
-    const formatted = {
-      name: mockOrg.name,
-      domain: mockOrg.primary_domain,
-      industry: mockOrg.industry,
-      employees: mockOrg.estimated_num_employees,
-      location: `${mockOrg.city}, ${mockOrg.state}`,
-      description: mockOrg.short_description,
-      founded: mockOrg.founded_year,
-      linkedin: mockOrg.linkedin_url,
-      technologies: mockOrg.current_technologies.slice(0, 10),
-    };
-
-    expect(formatted).toEqual({
-      name: 'Apollo.io',
-      domain: 'apollo.io',
-      industry: 'information technology & services',
-      employees: 800,
-      location: 'San Francisco, California',
-      description: 'AI-driven sales platform',
-      founded: 2015,
-      linkedin: 'https://linkedin.com/company/apolloio',
-      technologies: [{ uid: 'ai', name: 'AI', category: 'Other' }],
+  describe('apollo_search_organizations', () => {
+    it('should map filters and default pagination', async () => {
+      await harness.call('apollo_search_organizations', { keywords: 'SaaS', locations: ['San Francisco'], employee_ranges: ['1,10'] });
+      expect(lastBody('POST /mixed_companies/search')).toEqual({
+        q_keywords: 'SaaS',
+        organization_locations: ['San Francisco'],
+        organization_num_employees_ranges: ['1,10'],
+        page: 1,
+        per_page: 10,
+      });
     });
   });
 });
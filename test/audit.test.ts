@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { AuditLog, auditOptionsFromEnv, countRecords, sanitizeArguments } from '../src/audit';
+
+describe('sanitizeArguments', () => {
+  const args = {
+    people: [{ email: 'ada@acme.io', first_name: 'Ada', domain: 'acme.io' }],
+    title: 'CTO',
+    api_key: 'secret-key',
+  };
+
+  it('should mask personal fields and drop secrets', () => {
+    expect(sanitizeArguments(args, 'mask')).toEqual({
+      people: [{ email: 'a***@acme.io', first_name: 'A***', domain: 'acme.io' }],
+      title: 'CTO',
+      api_key: '[redacted]',
+    });
+  });
+
+  it('should hash personal fields to a stable digest', () => {
+    const hashed = sanitizeArguments(args, 'hash') as any;
+    expect(hashed.people[0].email).toMatch(/^sha256:[0-9a-f]{12}$/);
+    expect((sanitizeArguments({ email: ' ADA@acme.io' }, 'hash') as any).email).toBe(hashed.people[0].email);
+  });
+
+  it('should keep personal fields with redaction off, but never secrets', () => {
+    expect(sanitizeArguments(args, 'none')).toEqual({ ...args, api_key: '[redacted]' });
+  });
+
+  it('should shorten long lists', () => {
+    const ids = Array.from({ length: 25 }, (_, i) => `contact-${i}`);
+    const sanitized = sanitizeArguments({ contact_ids: ids }, 'mask') as any;
+    expect(sanitized.contact_ids).toHaveLength(21);
+    expect(sanitized.contact_ids[20]).toBe('… 5 more');
+  });
+});
+
+describe('countRecords', () => {
+  it('should count each array in a result', () => {
+    expect(countRecords({ people: [1, 2], pagination: { page: 1 }, contacts: [] })).toEqual({ people: 2, contacts: 0 });
+    expect(countRecords({ person: null })).toBeUndefined();
+  });
+});
+
+describe('auditOptionsFromEnv', () => {
+  it('should be on by default and off on request', () => {
+    expect(auditOptionsFromEnv({ APOLLO_AUDIT_DIR: '/tmp/audit', APOLLO_AUDIT_REDACT: 'hash' })).toMatchObject({
+      file: path.join('/tmp/audit', 'audit.jsonl'),
+      redact: 'hash',
+      maxBytes: 10 * 1024 * 1024,
+      maxFiles: 5,
+    });
+    expect(auditOptionsFromEnv({ APOLLO_AUDIT: 'off' })).toBeUndefined();
+  });
+});
+
+describe('AuditLog', () => {
+  let dir: string;
+  let now: number;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'apollo-audit-'));
+    now = Date.parse('2026-03-10T12:00:00Z');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const entry = (tool: string, status: 'ok' | 'error' = 'ok') =>
+    ({ type: 'tool' as const, tool, status, latency_ms: 5, arguments: {} });
+
+  it('should append entries as JSON lines', async () => {
+    const log = new AuditLog({ file: path.join(dir, 'audit.jsonl'), now: () => now });
+    log.write(entry('apollo_search_people'));
+    await log.flush();
+
+    const [line] = (await readFile(path.join(dir, 'audit.jsonl'), 'utf8')).trim().split('\n');
+    expect(JSON.parse(line)).toEqual({ at: '2026-03-10T12:00:00.000Z', ...entry('apollo_search_people') });
+  });
+
+  it('should rotate the file and keep a bounded number of old ones', async () => {
+    const log = new AuditLog({ file: path.join(dir, 'audit.jsonl'), maxBytes: 200, maxFiles: 2, now: () => now });
+    for (let i = 0; i < 10; i++) log.write(entry(`tool-${i}`));
+    await log.flush();
+
+    expect((await readdir(dir)).sort()).toEqual(['audit.jsonl', 'audit.jsonl.1', 'audit.jsonl.2']);
+    const recent = await log.query({ limit: 100 });
+    expect(recent[0].tool).toBe('tool-9');
+    expect(recent.length).toBeLessThan(10);
+  });
+
+  it('should query newest first across rotated files with filters', async () => {
+    const log = new AuditLog({ file: path.join(dir, 'audit.jsonl'), maxBytes: 200, now: () => now });
+    log.write(entry('apollo_enrich_person'));
+    now += 60_000;
+    log.write(entry('apollo_search_people', 'error'));
+    now += 60_000;
+    log.write({ ...entry('apollo_enrich_person'), tenant: 'other' });
+
+    expect((await log.query({ limit: 10 })).map((e) => e.at)).toEqual([
+      '2026-03-10T12:02:00.000Z',
+      '2026-03-10T12:01:00.000Z',
+      '2026-03-10T12:00:00.000Z',
+    ]);
+    expect(await log.query({ tool: 'apollo_enrich_person', limit: 1 })).toMatchObject([{ tenant: 'other' }]);
+    expect(await log.query({ status: 'error', limit: 10 })).toMatchObject([{ tool: 'apollo_search_people' }]);
+    expect(await log.query({ since: '2026-03-10T12:01:00.000Z', limit: 10 })).toHaveLength(2);
+    expect(await log.query({ tenant: 'other', limit: 10 })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { chunk, mapWithConcurrency } from '../src/batch';
+
+describe('chunk', () => {
+  it('should split items into fixed-size chunks', () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+  });
+
+  it('should return no chunks for an empty list', () => {
+    expect(chunk([], 10)).toEqual([]);
+  });
+
+  it('should reject a size below 1', () => {
+    expect(() => chunk([1], 0)).toThrow();
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('should preserve input order', async () => {
+    const result = await mapWithConcurrency([30, 10, 20], 3, async (ms, i) => {
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      return i;
+    });
+    expect(result).toEqual([0, 1, 2]);
+  });
+
+  it('should never exceed the concurrency limit', async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    await mapWithConcurrency(Array.from({ length: 10 }, (_, i) => i), 3, async () => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+    });
+
+    expect(peak).toBe(3);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { ResponseCache, normalizeDomain, personCacheKey } from '../src/cache';
+
+describe('cache keys', () => {
+  it('should normalize domains', () => {
+    expect(normalizeDomain('https://www.Apollo.io/pricing')).toBe('apollo.io');
+    expect(normalizeDomain(' apollo.io ')).toBe('apollo.io');
+  });
+
+  it('should key people by email when present', () => {
+    expect(personCacheKey({ email: ' John@Example.com', first_name: 'John' })).toBe('email:john@example.com');
+  });
+
+  it('should key people by name and company otherwise', () => {
+    expect(personCacheKey({ first_name: 'John ', last_name: 'DOE', domain: 'www.example.com' }))
+      .toBe(personCacheKey({ first_name: 'john', last_name: 'doe', domain: 'example.com' }));
+  });
+});
+
+describe('ResponseCache', () => {
+  let dir: string;
+  let now: number;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'apollo-cache-'));
+    now = 1_000_000;
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should return stored values within the TTL', async () => {
+    const cache = new ResponseCache({ dir, ttlMs: 60_000, now: () => now });
+    await cache.set('organizations', 'domain:apollo.io', { organization: { name: 'Apollo' } });
+
+    now += 30_000;
+    expect(await cache.get('organizations', 'domain:apollo.io')).toEqual({
+      value: { organization: { name: 'Apollo' } },
+      stored_at: 1_000_000,
+    });
+  });
+
+  it('should expire values after the TTL', async () => {
+    const cache = new ResponseCache({ dir, ttlMs: 60_000, now: () => now });
+    await cache.set('organizations', 'domain:apollo.io', { organization: {} });
+
+    now += 60_001;
+    expect(await cache.get('organizations', 'domain:apollo.io')).toBeUndefined();
+  });
+
+  it('should keep namespaces apart', async () => {
+    const cache = new ResponseCache({ dir, ttlMs: 60_000, now: () => now });
+    await cache.set('people', 'key', { person: {} });
+
+    expect(await cache.get('organizations', 'key')).toBeUndefined();
+  });
+
+  it('should be disabled with a zero TTL', async () => {
+    const cache = new ResponseCache({ dir, ttlMs: 0 });
+    await cache.set('people', 'key', { person: {} });
+
+    expect(cache.enabled).toBe(false);
+    expect(await cache.get('people', 'key')).toBeUndefined();
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { missingCapabilities, probeCapabilities, unavailableToolModeFromEnv } from '../src/capabilities';
+
+function httpError(status: number) {
+  return Object.assign(new Error(`Request failed with status code ${status}`), { response: { status } });
+}
+
+describe('probeCapabilities', () => {
+  it('should detect a master key', async () => {
+    expect(await probeCapabilities(async () => ({}))).toEqual({ master_key: true });
+  });
+
+  it('should detect a regular key from a 403', async () => {
+    expect(await probeCapabilities(async () => { throw httpError(403); })).toEqual({ master_key: false });
+  });
+
+  it('should stay undecided on other failures', async () => {
+    expect(await probeCapabilities(async () => { throw httpError(401); })).toEqual({});
+    expect(await probeCapabilities(async () => { throw new Error('ECONNRESET'); })).toEqual({});
+  });
+});
+
+describe('missingCapabilities', () => {
+  it('should only report capabilities known to be missing', () => {
+    expect(missingCapabilities(['master_key'], { master_key: false })).toEqual(['master_key']);
+    expect(missingCapabilities(['master_key'], {})).toEqual([]);
+    expect(missingCapabilities(undefined, { master_key: false })).toEqual([]);
+  });
+});
+
+describe('unavailableToolModeFromEnv', () => {
+  it('should mark by default', () => {
+    expect(unavailableToolModeFromEnv({})).toBe('mark');
+    expect(unavailableToolModeFromEnv({ APOLLO_UNAVAILABLE_TOOLS: 'hide' })).toBe('hide');
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { findDuplicateContact } from '../src/contacts';
+
+const existing = [
+  { id: '1', name: 'Jane Doe', email: 'jane@acme.com', organization_name: 'Acme' },
+  { id: '2', name: 'John Smith', email: null, organization: { name: 'Globex', primary_domain: 'globex.com' } },
+];
+
+describe('findDuplicateContact', () => {
+  it('should match on email regardless of case', () => {
+    expect(findDuplicateContact({ email: 'JANE@acme.com' }, existing)).toEqual({
+      contact: existing[0],
+      matched_on: 'email',
+    });
+  });
+
+  it('should match on full name at the same domain', () => {
+    const match = findDuplicateContact({ first_name: 'john', last_name: 'Smith', website_url: 'https://www.globex.com' }, existing);
+    expect(match?.contact.id).toBe('2');
+    expect(match?.matched_on).toBe('name_and_domain');
+  });
+
+  it('should match on full name at the same company name', () => {
+    const match = findDuplicateContact({ first_name: 'Jane', last_name: 'Doe', organization_name: 'ACME' }, existing);
+    expect(match?.contact.id).toBe('1');
+  });
+
+  it('should not treat the same name at another company as a duplicate', () => {
+    expect(findDuplicateContact({ first_name: 'John', last_name: 'Smith', website_url: 'initech.com' }, existing)).toBeUndefined();
+  });
+
+  it('should not match on name alone', () => {
+    expect(findDuplicateContact({ first_name: 'John', last_name: 'Smith' }, existing)).toBeUndefined();
+  });
+
+  it('should not treat the same name with a different email as a duplicate', () => {
+    expect(findDuplicateContact({ first_name: 'Jane', last_name: 'Doe', email: 'jane.doe@acme.com' }, existing)).toBeUndefined();
+    expect(findDuplicateContact({ first_name: 'Jane', last_name: 'Doe', email: 'jane.doe@acme.com', organization_name: 'Acme' }, existing))
+      .toBeUndefined();
+  });
+
+  it('should not take a free-mail domain for a company', () => {
+    const contacts = [{ id: '3', name: 'John Smith', email: null, organization: { primary_domain: 'gmail.com' } }];
+    expect(findDuplicateContact({ first_name: 'John', last_name: 'Smith', email: 'john.smith@gmail.com' }, contacts)).toBeUndefined();
+    expect(findDuplicateContact({ first_name: 'John', last_name: 'Smith', email: 'john@globex.com' }, existing)?.contact.id).toBe('2');
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import {
+  ClientPool,
+  CredentialError,
+  CredentialOptions,
+  bearerAuthenticator,
+  loadProfiles,
+  resolveTenant,
+  tenantFor,
+} from '../src/credentials';
+
+const profiles = new Map([
+  ['sales', { name: 'sales', apiKey: 'sales-key', authToken: 'sales-token' }],
+  ['ops', { name: 'ops', apiKey: 'ops-key' }],
+]);
+
+describe('loadProfiles', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'apollo-profiles-'));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should read keys inline or from the environment', async () => {
+    const file = path.join(dir, 'profiles.json');
+    await writeFile(file, JSON.stringify({
+      profiles: {
+        sales: { api_key: 'sales-key', auth_token: 'sales-token' },
+        ops: { api_key_env: 'OPS_KEY' },
+      },
+    }));
+
+    const loaded = await loadProfiles(file, { OPS_KEY: 'ops-key' });
+    expect(loaded.get('sales')).toEqual({ name: 'sales', apiKey: 'sales-key', authToken: 'sales-token' });
+    expect(loaded.get('ops')).toEqual({ name: 'ops', apiKey: 'ops-key', authToken: undefined });
+  });
+
+  it('should reject profiles without a key', async () => {
+    const file = path.join(dir, 'missing.json');
+    await writeFile(file, JSON.stringify({ profiles: { ops: { api_key_env: 'OPS_KEY' } } }));
+    await expect(loadProfiles(file, {})).rejects.toThrow(/ops/);
+  });
+});
+
+describe('resolveTenant', () => {
+  const options: CredentialOptions = { apiKey: 'default-key', profiles };
+
+  it('should fall back to the server key', () => {
+    expect(resolveTenant({}, options)).toEqual(tenantFor('default-key'));
+  });
+
+  it('should prefer the default profile over the default key', () => {
+    expect(resolveTenant({}, { ...options, profile: 'ops' }).apiKey).toBe('ops-key');
+  });
+
+  it('should honour key and profile headers', () => {
+    expect(resolveTenant({ headers: { 'x-apollo-api-key': 'own-key' } }, options).apiKey).toBe('own-key');
+    expect(resolveTenant({ headers: { 'x-apollo-profile': 'sales' } }, options)).toMatchObject({ apiKey: 'sales-key', profile: 'sales' });
+  });
+
+  it('should pin clients to the profile they authenticated as', () => {
+    const authInfo = { token: 'sales-token', clientId: 'sales', scopes: [], extra: { profile: 'sales' } };
+    expect(resolveTenant({ authInfo }, options).apiKey).toBe('sales-key');
+    expect(() => resolveTenant({ authInfo, headers: { 'x-apollo-profile': 'ops' } }, options)).toThrow(CredentialError);
+  });
+
+  it('should reject unknown profiles and missing credentials', () => {
+    expect(() => resolveTenant({ headers: { 'x-apollo-profile': 'nope' } }, options)).toThrow(CredentialError);
+    expect(() => resolveTenant({}, { profiles })).toThrow(CredentialError);
+  });
+
+  it('should derive the tenant id from the key without exposing it', () => {
+    const tenant = tenantFor('secret-key');
+    expect(tenant.id).toMatch(/^[0-9a-f]{16}$/);
+    expect(tenant.id).toBe(tenantFor('secret-key', 'alias').id);
+    expect(tenant.id).not.toBe(tenantFor('other-key').id);
+  });
+});
+
+describe('bearerAuthenticator', () => {
+  it('should be disabled without any token', () => {
+    expect(bearerAuthenticator(undefined, new Map())).toBeUndefined();
+  });
+
+  it('should accept the shared token and pin profile tokens', () => {
+    const authenticate = bearerAuthenticator('shared', profiles)!;
+    expect(authenticate('shared')).toMatchObject({ clientId: 'shared' });
+    expect(authenticate('sales-token')).toMatchObject({ clientId: 'sales', extra: { profile: 'sales' } });
+    expect(authenticate('wrong')).toBeUndefined();
+  });
+});
+
+describe('ClientPool', () => {
+  it('should create one client per tenant', () => {
+    const pool = new ClientPool((tenant) => ({ key: tenant.apiKey }));
+    const first = pool.get(tenantFor('a'));
+    expect(pool.get(tenantFor('a', 'alias'))).toBe(first);
+    expect(pool.get(tenantFor('b'))).not.toBe(first);
+    expect(pool.size).toBe(2);
+  });
+});
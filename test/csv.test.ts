@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { csvRow, parseCsv } from '../src/csv';
+
+describe('parseCsv', () => {
+  it('should parse quoted fields with commas, quotes and line breaks', () => {
+    expect(parseCsv('name,note\r\n"Doe, Jane","said ""hi""\nthen left"\r\n')).toEqual([
+      ['name', 'note'],
+      ['Doe, Jane', 'said "hi"\nthen left'],
+    ]);
+  });
+
+  it('should ignore a BOM, blank lines and a missing final newline', () => {
+    expect(parseCsv('\uFEFFa,b\n\n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('should keep empty fields', () => {
+    expect(parseCsv('a,b,c\n,,\n')).toEqual([['a', 'b', 'c'], ['', '', '']]);
+  });
+
+  it('should read back what csvRow writes', () => {
+    const values = ['plain', 'with, comma', 'with "quotes"', 'multi\r\nline', ''];
+    expect(parseCsv(csvRow(values))).toEqual([values]);
+  });
+});
+
+describe('csvRow', () => {
+  it('should defuse formulas but keep phone numbers', () => {
+    expect(csvRow(['=SUM(A1)', '@cmd', '+14155550100', '-5', '-cmd'])).toBe("'=SUM(A1),'@cmd,+14155550100,-5,'-cmd\r\n");
+  });
+});
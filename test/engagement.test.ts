@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateEngagement, countTouches, engagementTimeline, messageEngagement, totalEngagement } from '../src/engagement';
+
+const message = (id: string, step: string, sender: string, completed_at: string) =>
+  ({ id, emailer_step_id: step, from_email: sender, completed_at });
+const touch = (touch_type: string, created_at: string) => ({ touch_type, created_at });
+
+const sent = [
+  {
+    message: message('m1', 'step-1', 'a@acme.com', '2024-05-01T10:00:00Z'),
+    touches: [touch('opened', '2024-05-01T11:00:00Z'), touch('opened', '2024-05-01T10:30:00Z'), touch('replied', '2024-05-02T09:00:00Z')],
+  },
+  {
+    message: message('m2', 'step-1', 'b@acme.com', '2024-05-01T12:00:00Z'),
+    touches: [touch('opened', '2024-05-01T13:00:00Z'), touch('clicked', '2024-05-01T13:01:00Z')],
+  },
+  {
+    message: message('m3', 'step-2', 'a@acme.com', '2024-05-03T12:00:00Z'),
+    touches: [],
+  },
+];
+const rows = sent.map(({ message, touches }) => messageEngagement(message, touches));
+
+describe('countTouches', () => {
+  it('should classify touches by type', () => {
+    expect(countTouches(sent[0].touches)).toEqual({ opens: 2, clicks: 0, replies: 1 });
+  });
+});
+
+describe('messageEngagement', () => {
+  it('should measure the time to the first open', () => {
+    expect(rows[0]).toMatchObject({
+      message_id: 'm1',
+      step_id: 'step-1',
+      sender: 'a@acme.com',
+      first_open_at: '2024-05-01T10:30:00Z',
+      seconds_to_first_open: 1800,
+    });
+    expect(rows[2]).toMatchObject({ opens: 0, first_open_at: null, seconds_to_first_open: null });
+  });
+});
+
+describe('aggregateEngagement', () => {
+  it('should aggregate per step', () => {
+    expect(aggregateEngagement(rows, (r) => r.step_id)).toEqual([
+      {
+        key: 'step-1', messages: 2, opens: 3, clicks: 1, replies: 1, opened: 2, replied: 1,
+        open_rate: 1, reply_rate: 0.5, median_seconds_to_first_open: 2700,
+      },
+      {
+        key: 'step-2', messages: 1, opens: 0, clicks: 0, replies: 0, opened: 0, replied: 0,
+        open_rate: 0, reply_rate: 0, median_seconds_to_first_open: null,
+      },
+    ]);
+  });
+
+  it('should aggregate per sender', () => {
+    expect(aggregateEngagement(rows, (r) => r.sender).map((g) => [g.key, g.messages])).toEqual([['a@acme.com', 2], ['b@acme.com', 1]]);
+  });
+
+  it('should total an empty report', () => {
+    expect(totalEngagement([])).toMatchObject({ messages: 0, open_rate: 0, median_seconds_to_first_open: null });
+  });
+});
+
+describe('engagementTimeline', () => {
+  it('should bucket sends and touches by UTC day', () => {
+    expect(engagementTimeline(sent)).toEqual([
+      { date: '2024-05-01', sent: 2, opens: 3, clicks: 1, replies: 0 },
+      { date: '2024-05-02', sent: 0, opens: 0, clicks: 0, replies: 1 },
+      { date: '2024-05-03', sent: 1, opens: 0, clicks: 0, replies: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { appendFile, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { parseCsv } from '../src/csv';
+import { EnrichOutcome, enrichFile, matchParams, resolveColumnMapping } from '../src/enrich-file';
+
+describe('resolveColumnMapping', () => {
+  it('should detect common header names', () => {
+    expect(resolveColumnMapping(['First Name', 'Last Name', 'Work Email', 'Company', 'Website'], 'person')).toEqual({
+      email: 'Work Email',
+      first_name: 'First Name',
+      last_name: 'Last Name',
+      domain: 'Website',
+      organization_name: 'Company',
+    });
+  });
+
+  it('should prefer explicit mappings', () => {
+    expect(resolveColumnMapping(['Email', 'Contact'], 'person', { email: 'Contact' })).toEqual({ email: 'Contact' });
+  });
+
+  it('should reject unknown or unusable columns', () => {
+    expect(() => resolveColumnMapping(['Email'], 'person', { email: 'Mail' })).toThrow(McpError);
+    expect(() => resolveColumnMapping(['First Name', 'Notes'], 'person')).toThrow(/column_mapping/);
+    expect(() => resolveColumnMapping(['Email'], 'organization')).toThrow(/domain/);
+  });
+});
+
+describe('matchParams', () => {
+  const mapping = { email: 'email', first_name: 'first', domain: 'domain' };
+
+  it('should require an email or a name with a company', () => {
+    expect(matchParams({ email: ' jane@acme.com ', first: '', domain: '' }, mapping, 'person')).toEqual({ email: 'jane@acme.com' });
+    expect(matchParams({ email: '', first: 'Jane', domain: 'acme.com' }, mapping, 'person')).toEqual({ first_name: 'Jane', domain: 'acme.com' });
+    expect(matchParams({ email: '', first: 'Jane', domain: '' }, mapping, 'person')).toBeUndefined();
+  });
+
+  it('should only use the domain for organizations', () => {
+    expect(matchParams({ email: 'jane@acme.com', first: 'Jane', domain: 'acme.com' }, mapping, 'organization')).toEqual({ domain: 'acme.com' });
+  });
+});
+
+describe('enrichFile', () => {
+  let dir: string;
+  let input: string;
+  let output: string;
+  let calls: any[][];
+
+  const enrich = async (batch: any[]): Promise<EnrichOutcome[]> => {
+    calls.push(batch);
+    return batch.map((params) => params.email === 'nobody@acme.com'
+      ? { status: 'not_found' }
+      : { status: 'matched', record: { title: `CEO of ${params.email}`, organization: { name: 'Acme' } } });
+  };
+  const run = (overrides = {}) => enrichFile({
+    input,
+    output,
+    target: 'person',
+    appendFields: ['title', 'organization.name'],
+    maxRows: 100,
+    batchSize: 2,
+    enrich,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'apollo-enrich-'));
+    input = path.join(dir, 'leads.csv');
+    output = path.join(dir, 'leads.enriched.csv');
+    calls = [];
+    await writeFile(input, 'Name,Email\nJane,jane@acme.com\nNo Email,\nNobody,nobody@acme.com\nJohn,john@acme.com\n');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should append Apollo fields and a match status to each row', async () => {
+    const result = await run();
+    expect(result).toMatchObject({
+      total_rows: 4,
+      resumed_from: 0,
+      processed: 4,
+      remaining: 0,
+      counts: { matched: 2, not_found: 1, skipped: 1, error: 0 },
+    });
+    expect(parseCsv(await readFile(output, 'utf8'))).toEqual([
+      ['Name', 'Email', 'apollo_match_status', 'apollo_error', 'apollo.title', 'apollo.organization.name'],
+      ['Jane', 'jane@acme.com', 'matched', '', 'CEO of jane@acme.com', 'Acme'],
+      ['No Email', '', 'skipped', '', '', ''],
+      ['Nobody', 'nobody@acme.com', 'not_found', '', '', ''],
+      ['John', 'john@acme.com', 'matched', '', 'CEO of john@acme.com', 'Acme'],
+    ]);
+  });
+
+  it('should resume after the last complete row', async () => {
+    expect(await run({ maxRows: 2 })).toMatchObject({ processed: 2, remaining: 2 });
+    await appendFile(output, 'Nobody,nobody@acme.com,not_fo');
+
+    calls = [];
+    expect(await run()).toMatchObject({ resumed_from: 2, processed: 2, remaining: 0 });
+    expect(calls.flat().map((p) => p.email)).toEqual(['nobody@acme.com', 'john@acme.com']);
+    expect(parseCsv(await readFile(output, 'utf8')).map((row) => row[0])).toEqual(['Name', 'Jane', 'No Email', 'Nobody', 'John']);
+  });
+
+  it('should stop at a systemic error and leave the failed rows for the next call', async () => {
+    const result = await run({ enrich: async (batch: any[]) => batch.map(() => ({ status: 'error', error: 'Network Error', systemic: true })) });
+    expect(result).toMatchObject({ processed: 0, remaining: 4, stopped: 'Network Error' });
+    expect(parseCsv(await readFile(output, 'utf8'))).toHaveLength(1);
+  });
+
+  it('should keep the rows before a systemic error in the same batch', async () => {
+    const result = await run({
+      batchSize: 10,
+      enrich: async (batch: any[]) => batch.map((params, i): EnrichOutcome => i === 0
+        ? { status: 'matched', record: { title: 'CEO' } }
+        : { status: 'error', error: 'Daily budget used up', systemic: true }),
+    });
+    expect(result).toMatchObject({ processed: 2, remaining: 2, stopped: 'Daily budget used up' });
+    expect(parseCsv(await readFile(output, 'utf8')).map((row) => row[2])).toEqual(['apollo_match_status', 'matched', 'skipped']);
+  });
+
+  it('should record a row Apollo rejects and carry on', async () => {
+    await writeFile(input, 'Name,Email\nBad,bad@\nNo Email,\nJane,jane@acme.com\n');
+    const result = await run({
+      enrich: async (batch: any[]) => batch.map((params): EnrichOutcome => params.email === 'bad@'
+        ? { status: 'error', error: 'Apollo API error 422: invalid email' }
+        : { status: 'matched', record: { title: 'CEO' } }),
+    });
+    expect(result).toMatchObject({ processed: 3, remaining: 0, counts: { error: 1, skipped: 1, matched: 1 } });
+    expect(result.stopped).toBeUndefined();
+    expect(parseCsv(await readFile(output, 'utf8'))[1]).toEqual(['Bad', 'bad@', 'error', 'Apollo API error 422: invalid email', '', '']);
+  });
+
+  it('should give up after several failed batches in a row', async () => {
+    const rows = Array.from({ length: 10 }, (_, i) => `P${i},p${i}@acme.com`).join('\n');
+    await writeFile(input, `Name,Email\n${rows}\n`);
+    const result = await run({ enrich: async (batch: any[]) => batch.map(() => ({ status: 'error', error: 'Apollo API error 500' })) });
+    expect(result).toMatchObject({ processed: 6, remaining: 4, stopped: expect.stringContaining('3 batches in a row failed') });
+  });
+
+  it('should copy input cells and headers verbatim and resume over them', async () => {
+    await writeFile(input, 'Email,@twitter\njane@acme.com,@jane\njohn@acme.com,=1+1\n');
+    const formula = async (batch: any[]) => batch.map((): EnrichOutcome => ({ status: 'matched', record: { title: '=HYPERLINK("x")' } }));
+
+    expect(await run({ maxRows: 1, enrich: formula })).toMatchObject({ processed: 1, remaining: 1 });
+    expect(await run({ enrich: formula })).toMatchObject({ resumed_from: 1, processed: 1, remaining: 0 });
+    expect(parseCsv(await readFile(output, 'utf8'))).toEqual([
+      ['Email', '@twitter', 'apollo_match_status', 'apollo_error', 'apollo.title', 'apollo.organization.name'],
+      ['jane@acme.com', '@jane', 'matched', '', `'=HYPERLINK("x")`, ''],
+      ['john@acme.com', '=1+1', 'matched', '', `'=HYPERLINK("x")`, ''],
+    ]);
+  });
+
+  it('should refuse to resume into a file with other columns unless restarting', async () => {
+    await writeFile(output, 'something,else\r\n');
+    await expect(run()).rejects.toThrow(/restart/);
+    expect(await run({ restart: true })).toMatchObject({ resumed_from: 0, processed: 4 });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { exportFileName, toCsv, toJsonl, writeExport } from '../src/export';
+
+const people = [
+  {
+    id: 'p1',
+    name: 'Jane Doe',
+    title: 'VP, Sales',
+    organization: { name: 'Acme "Rockets"' },
+    phone_numbers: [{ sanitized_number: '+14155550100' }],
+  },
+  { id: 'p2', name: '=HYPERLINK("http://evil")', title: null, organization: null },
+];
+
+describe('toCsv', () => {
+  it('should flatten nested paths into quoted columns', () => {
+    expect(toCsv(people, ['name', 'title', 'organization.name', 'phone_numbers[0].sanitized_number'])).toBe(
+      'name,title,organization.name,phone_numbers[0].sanitized_number\r\n' +
+      'Jane Doe,"VP, Sales","Acme ""Rockets""",+14155550100\r\n' +
+      '"\'=HYPERLINK(""http://evil"")",,,\r\n'
+    );
+  });
+
+  it('should write objects as JSON', () => {
+    expect(toCsv([{ tags: ['a', 'b'] }], ['tags'])).toBe('tags\r\n"[""a"",""b""]"\r\n');
+  });
+});
+
+describe('toJsonl', () => {
+  it('should write whole records or the chosen columns', () => {
+    expect(toJsonl(people.slice(0, 1))).toBe(`${JSON.stringify(people[0])}\n`);
+    expect(toJsonl(people, ['organization.name'])).toBe('{"organization.name":"Acme \\"Rockets\\""}\n{"organization.name":null}\n');
+  });
+});
+
+describe('exportFileName', () => {
+  const now = new Date('2024-05-01T10:20:30.000Z');
+
+  it('should default to a timestamped name', () => {
+    expect(exportFileName('people', 'csv', undefined, now)).toBe('apollo-people-2024-05-01T10-20-30-000Z.csv');
+  });
+
+  it('should keep custom names inside the export directory', () => {
+    expect(exportFileName('people', 'csv', '../../etc/leads q2.csv', now)).toBe('leads-q2.csv');
+    expect(exportFileName('organizations', 'jsonl', '..', now)).toBe('apollo-organizations-2024-05-01T10-20-30-000Z.jsonl');
+  });
+});
+
+describe('writeExport', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'apollo-export-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should write CSV with the default columns', async () => {
+    const result = await writeExport({ dir: path.join(dir, 'nested'), source: 'people', format: 'csv', records: people, name: 'leads' });
+    expect(result).toMatchObject({ path: path.join(dir, 'nested', 'leads.csv'), format: 'csv', rows: 2 });
+    expect(result.columns).toContain('organization.name');
+
+    const [header, first] = (await readFile(result.path, 'utf8')).split('\r\n');
+    expect(header.split(',')).toEqual(result.columns);
+    expect(first.startsWith('p1,')).toBe(true);
+  });
+
+  it('should write whole records as JSONL', async () => {
+    const result = await writeExport({ dir, source: 'people', format: 'jsonl', records: people, name: 'leads' });
+    expect(result.columns).toBeNull();
+    const lines = (await readFile(result.path, 'utf8')).trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line).id)).toEqual(['p1', 'p2']);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { Server as HttpServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { startHttpServer, transportOptionsFromEnv } from '../src/http';
+
+function createMcpServer() {
+  const server = new Server({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } });
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [{ name: 'ping', inputSchema: { type: 'object' as const } }],
+  }));
+  return server;
+}
+
+describe('transportOptionsFromEnv', () => {
+  it('should default to stdio on localhost:3000', () => {
+    expect(transportOptionsFromEnv([], {})).toEqual({ mode: 'stdio', port: 3000, host: '127.0.0.1', authToken: undefined });
+  });
+
+  it('should read the environment', () => {
+    expect(transportOptionsFromEnv([], {
+      APOLLO_MCP_TRANSPORT: 'http',
+      APOLLO_MCP_PORT: '8080',
+      APOLLO_MCP_HOST: '0.0.0.0',
+      APOLLO_MCP_AUTH_TOKEN: 'secret',
+    })).toEqual({ mode: 'http', port: 8080, host: '0.0.0.0', authToken: 'secret' });
+  });
+
+  it('should let CLI flags override the environment', () => {
+    expect(transportOptionsFromEnv(['--http', '--port', '9000'], { APOLLO_MCP_PORT: '8080' }))
+      .toMatchObject({ mode: 'http', port: 9000 });
+    expect(transportOptionsFromEnv(['--stdio'], { APOLLO_MCP_TRANSPORT: 'http' }).mode).toBe('stdio');
+  });
+});
+
+describe('startHttpServer', () => {
+  let httpServer: HttpServer;
+  let url: string;
+
+  beforeAll(async () => {
+    const authenticate = (token: string) =>
+      token === 'secret' || token === 'other' ? { token, clientId: token, scopes: [] } : undefined;
+    httpServer = await startHttpServer(createMcpServer, { port: 0, host: '127.0.0.1', authenticate });
+    url = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  it('should answer the health check without auth', async () => {
+    const res = await fetch(`${url}/health`);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ status: 'ok' });
+  });
+
+  it('should reject clients without the bearer token', async () => {
+    const res = await fetch(`${url}/mcp`, { method: 'POST', headers: { Authorization: 'Bearer wrong' }, body: '{}' });
+    expect(res.status).toBe(401);
+    expect(res.headers.get('www-authenticate')).toBe('Bearer');
+  });
+
+  it('should reject requests without a session that are not initialize', async () => {
+    const res = await fetch(`${url}/mcp`, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer secret', 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it('should serve MCP sessions to the client that opened them', async () => {
+    const client = new Client({ name: 'test-client', version: '0.0.0' });
+    const transport = new StreamableHTTPClientTransport(new URL(`${url}/mcp`), {
+      requestInit: { headers: { Authorization: 'Bearer secret' } },
+    });
+    await client.connect(transport);
+    try {
+      expect(transport.sessionId).toBeTruthy();
+      const { tools } = await client.listTools();
+      expect(tools.map((t) => t.name)).toEqual(['ping']);
+
+      const borrowed = await fetch(`${url}/mcp`, {
+        method: 'POST',
+        headers: {
+          Authorization: 'Bearer other',
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+          'Mcp-Session-Id': transport.sessionId!,
+        },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+      });
+      expect(borrowed.status).toBe(404);
+    } finally {
+      await transport.terminateSession();
+      await client.close();
+    }
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { IcpConfigSchema, leadFacts, loadIcp, matchesPattern, scoreLead, scoreLeads } from '../src/icp';
+
+const icp = IcpConfigSchema.parse({
+  name: 'Mid-market SaaS',
+  rules: [
+    { name: 'Software industry', field: 'industry', in: ['Computer Software', 'Internet'], weight: 30 },
+    { name: '50-1000 employees', field: 'employees', min: 50, max: 1000, weight: 25 },
+    { name: 'US based', field: 'country', equals: 'United States', weight: 10 },
+    { name: 'Uses Salesforce', field: 'technologies', in: ['Salesforce'], weight: 15 },
+    { name: 'Sales leader', field: 'title', matches: ['vp*sales', 'head of sales'], weight: 20 },
+    { name: 'Too small', field: 'employees', max: 10, weight: -40 },
+  ],
+});
+
+const organization = {
+  id: 'org-1',
+  name: 'Acme',
+  industry: 'computer software',
+  estimated_num_employees: 250,
+  country: 'United States',
+  current_technologies: [{ uid: 'salesforce', name: 'Salesforce', category: 'CRM' }],
+};
+
+describe('leadFacts', () => {
+  it('should read people through their organization', () => {
+    const facts = leadFacts({ title: 'VP of Sales', country: 'Germany', organization });
+    expect(facts).toMatchObject({ title: 'VP of Sales', country: 'Germany', industry: 'computer software', employees: 250 });
+    expect(facts.technologies).toEqual(['Salesforce']);
+  });
+
+  it('should read the summaries search tools return', () => {
+    expect(leadFacts({ name: 'Acme', industry: 'Internet', employees: 40, technologies: ['HubSpot'] })).toMatchObject({
+      industry: 'Internet',
+      employees: 40,
+      technologies: ['HubSpot'],
+    });
+  });
+});
+
+describe('scoreLead', () => {
+  it('should add the weights of matching rules and explain them', () => {
+    const score = scoreLead(organization, icp);
+    expect(score).toMatchObject({ id: 'org-1', name: 'Acme', score: 80, normalized_score: 80, tier: 'A' });
+    expect(score.matched.map((m) => m.rule)).toEqual(['Software industry', '50-1000 employees', 'US based', 'Uses Salesforce']);
+    expect(score.unmatched).toEqual(['Sales leader', 'Too small']);
+  });
+
+  it('should apply negative weights and clamp the normalized score at zero', () => {
+    const score = scoreLead({ name: 'Tiny', estimated_num_employees: 5 }, icp);
+    expect(score).toMatchObject({ score: -40, normalized_score: 0, tier: 'D' });
+  });
+
+  it('should not match rules whose value is missing', () => {
+    const score = scoreLead({ name: 'Unknown' }, icp);
+    expect(score.matched).toEqual([]);
+    expect(score.unmatched).toHaveLength(6);
+  });
+
+  it('should test raw paths and existence', () => {
+    const config = IcpConfigSchema.parse({
+      rules: [
+        { name: 'Funded', path: 'organization.funding_stage', in: ['Series B', 'Series C'], weight: 10 },
+        { name: 'Has LinkedIn', path: 'linkedin_url', exists: true, weight: 5 },
+      ],
+      tiers: [{ name: 'hot', min_score: 100 }, { name: 'cold', min_score: 0 }],
+    });
+    const score = scoreLead({ first_name: 'Ada', last_name: 'Lovelace', linkedin_url: 'x', organization: { funding_stage: 'series b' } }, config);
+    expect(score).toMatchObject({ name: 'Ada Lovelace', score: 15, tier: 'hot' });
+  });
+});
+
+describe('scoreLeads', () => {
+  it('should rank leads by score, keeping input order for ties', () => {
+    const ranked = scoreLeads([{ id: 'a' }, { id: 'b', organization }, { id: 'c' }], icp);
+    expect(ranked.map((s) => s.id)).toEqual(['b', 'a', 'c']);
+  });
+
+  it('should report ids and names as strings whatever type the records use', () => {
+    expect(scoreLeads([{ id: 1, name: 42 }], icp)[0]).toMatchObject({ id: '1', name: '42' });
+  });
+});
+
+describe('IcpConfigSchema', () => {
+  it('should reject rules without a condition or with both field and path', () => {
+    expect(() => IcpConfigSchema.parse({ rules: [{ name: 'x', field: 'industry', weight: 1 }] })).toThrow(/condition/);
+    expect(() => IcpConfigSchema.parse({ rules: [{ name: 'x', field: 'industry', path: 'industry', exists: true, weight: 1 }] }))
+      .toThrow(/field or path/);
+  });
+
+  it('should cap pattern length', () => {
+    const rule = (pattern: string) => ({ rules: [{ name: 'x', field: 'title', matches: [pattern], weight: 1 }] });
+    expect(() => IcpConfigSchema.parse(rule('x'.repeat(201)))).toThrow();
+    expect(IcpConfigSchema.parse(rule('vp*sales')).rules[0].matches).toEqual(['vp*sales']);
+  });
+});
+
+describe('matchesPattern', () => {
+  it('should find the pattern anywhere, ignoring case, with * standing for any run of characters', () => {
+    expect(matchesPattern('vp*sales', 'SVP, Global Sales')).toBe(true);
+    expect(matchesPattern('head of sales', 'Head of Sales EMEA')).toBe(true);
+    expect(matchesPattern('vp*sales', 'Sales VP')).toBe(false);
+    expect(matchesPattern('(a+)+', '(a+)+ literally')).toBe(true);
+  });
+
+  it('should treat regular expression syntax as text and stay fast on long values', () => {
+    const value = 'a'.repeat(100_000);
+    const started = Date.now();
+    expect(matchesPattern('.*.*.*.*x', value)).toBe(false);
+    expect(matchesPattern('a*a*a*a*a*a*b', value)).toBe(false);
+    expect(matchesPattern('*a*a*', value)).toBe(true);
+    expect(Date.now() - started).toBeLessThan(1_000);
+  });
+});
+
+describe('loadIcp', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'apollo-icp-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should load a config file', async () => {
+    const file = path.join(dir, 'icp.json');
+    await writeFile(file, JSON.stringify({ rules: [{ name: 'Software', field: 'industry', equals: 'Internet', weight: 1 }] }));
+    expect(await loadIcp(file)).toMatchObject({ name: 'ICP', rules: [{ name: 'Software' }] });
+  });
+
+  it('should name the file and the offending rule when the config is invalid', async () => {
+    const file = path.join(dir, 'icp.json');
+    await writeFile(file, JSON.stringify({ rules: [{ name: 'Broken', field: 'headcount', min: 1, weight: 1 }] }));
+    await expect(loadIcp(file)).rejects.toThrow(/icp\.json is invalid: rules\.0\.field/);
+  });
+});
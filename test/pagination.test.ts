@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { collectPages } from '../src/pagination';
+
+function fakeSearch(pages: Array<Array<{ id: string }>>, credits = 0) {
+  const calls: number[] = [];
+  const fetchPage = async (page: number) => {
+    calls.push(page);
+    return {
+      people: pages[page - 1] || [],
+      credits_consumed: credits,
+      pagination: { page, total_pages: pages.length, total_entries: pages.flat().length },
+    };
+  };
+  return { fetchPage, calls };
+}
+
+describe('collectPages', () => {
+  it('should walk every page until total_pages', async () => {
+    const { fetchPage, calls } = fakeSearch([[{ id: 'a' }], [{ id: 'b' }], [{ id: 'c' }]], 1);
+    const result = await collectPages(fetchPage, { key: 'people' });
+
+    expect(calls).toEqual([1, 2, 3]);
+    expect(result.records.map((r) => r.id)).toEqual(['a', 'b', 'c']);
+    expect(result.pages_fetched).toBe(3);
+    expect(result.credits_consumed).toBe(3);
+  });
+
+  it('should stop once max_results is reached', async () => {
+    const { fetchPage, calls } = fakeSearch([[{ id: 'a' }, { id: 'b' }], [{ id: 'c' }, { id: 'd' }], [{ id: 'e' }]]);
+    const result = await collectPages(fetchPage, { key: 'people', maxResults: 3 });
+
+    expect(calls).toEqual([1, 2]);
+    expect(result.records.map((r) => r.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should de-duplicate records by id across pages', async () => {
+    const { fetchPage } = fakeSearch([[{ id: 'a' }, { id: 'b' }], [{ id: 'b' }, { id: 'c' }]]);
+    const result = await collectPages(fetchPage, { key: 'people' });
+
+    expect(result.records.map((r) => r.id)).toEqual(['a', 'b', 'c']);
+    expect(result.duplicates_skipped).toBe(1);
+  });
+
+  it('should start from the requested page', async () => {
+    const { fetchPage, calls } = fakeSearch([[{ id: 'a' }], [{ id: 'b' }], [{ id: 'c' }]]);
+    await collectPages(fetchPage, { key: 'people', startPage: 2 });
+
+    expect(calls).toEqual([2, 3]);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { ToolPolicy, confirmationMessage, loadPolicy, policyOptionsFromEnv } from '../src/policy';
+
+describe('ToolPolicy', () => {
+  it('should allow reads and ask before writes and outreach by default', () => {
+    const policy = new ToolPolicy();
+    expect(policy.access('apollo_search_people')).toBe('allow');
+    expect(policy.access('apollo_create_contact', 'write')).toBe('confirm');
+    expect(policy.access('apollo_add_contacts_to_sequence', 'outreach')).toBe('confirm');
+  });
+
+  it('should prefer a tool entry over the default for its effect', () => {
+    const policy = new ToolPolicy({
+      defaults: { write: 'allow', outreach: 'block' },
+      tools: { apollo_update_account_owners: 'confirm', apollo_enrich_person: 'confirm' },
+    });
+    expect(policy.access('apollo_create_contact', 'write')).toBe('allow');
+    expect(policy.access('apollo_update_account_owners', 'write')).toBe('confirm');
+    expect(policy.access('apollo_add_contacts_to_sequence', 'outreach')).toBe('block');
+    expect(policy.access('apollo_enrich_person')).toBe('confirm');
+  });
+
+  it('should block every write in read-only mode, whatever the tool entries say', () => {
+    const policy = new ToolPolicy({ read_only: true, tools: { apollo_create_contact: 'allow' } });
+    expect(policy.access('apollo_create_contact', 'write')).toBe('block');
+    expect(policy.access('apollo_search_people')).toBe('allow');
+    expect(policy.blockedReason('apollo_create_contact', 'write')).toMatch(/read-only mode/);
+  });
+
+  it('should describe what the user is confirming', () => {
+    const message = confirmationMessage('apollo_add_contacts_to_sequence', 'outreach', { contact_ids: ['c1'] });
+    expect(message).toMatch(/^Allow apollo_add_contacts_to_sequence\? .*send email/);
+    expect(message).toContain('"contact_ids"');
+  });
+});
+
+describe('loadPolicy', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'apollo-policy-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should read read-only mode from the environment', () => {
+    expect(policyOptionsFromEnv({ APOLLO_READ_ONLY: 'true' }).readOnly).toBe(true);
+    expect(policyOptionsFromEnv({ APOLLO_READ_ONLY: '0' }).readOnly).toBe(false);
+  });
+
+  it('should load a policy file and let the environment force read-only mode', async () => {
+    const file = path.join(dir, 'policy.json');
+    await writeFile(file, JSON.stringify({ tools: { apollo_create_contact: 'allow' } }));
+
+    expect((await loadPolicy({ file })).access('apollo_create_contact', 'write')).toBe('allow');
+    expect((await loadPolicy({ file, readOnly: true })).access('apollo_create_contact', 'write')).toBe('block');
+  });
+
+  it('should explain an invalid policy file', async () => {
+    const file = path.join(dir, 'policy.json');
+    await writeFile(file, JSON.stringify({ tools: { apollo_create_contact: 'maybe' } }));
+    await expect(loadPolicy({ file })).rejects.toThrow(/policy\.json is invalid: tools\.apollo_create_contact: /);
+  });
+});
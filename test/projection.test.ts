@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { getPath, project } from '../src/projection';
+
+const person = {
+  name: 'Jane Doe',
+  organization: { name: 'Acme', primary_domain: 'acme.com' },
+  phone_numbers: [{ sanitized_number: '+14155550100' }, { sanitized_number: '+14155550101' }],
+};
+
+describe('getPath', () => {
+  it('should read nested and indexed paths', () => {
+    expect(getPath(person, 'organization.name')).toBe('Acme');
+    expect(getPath(person, 'phone_numbers[1].sanitized_number')).toBe('+14155550101');
+    expect(getPath(person, 'phone_numbers.0.sanitized_number')).toBe('+14155550100');
+  });
+
+  it('should return undefined for missing paths', () => {
+    expect(getPath(person, 'organization.industry.name')).toBeUndefined();
+    expect(getPath(person, 'emails[0]')).toBeUndefined();
+  });
+});
+
+describe('project', () => {
+  it('should keep only the requested fields and null out missing ones', () => {
+    expect(project(person, ['name', 'organization.primary_domain', 'title'])).toEqual({
+      name: 'Jane Doe',
+      'organization.primary_domain': 'acme.com',
+      title: null,
+    });
+  });
+});
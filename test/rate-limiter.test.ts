@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { RateLimiter, RateLimitExceededError, normalizeEndpoint } from '../src/rate-limiter';
+
+function fakeClock() {
+  let now = 0;
+  const waits: number[] = [];
+  return {
+    now: () => now,
+    sleep: async (ms: number) => {
+      waits.push(ms);
+      now += ms;
+    },
+    advance: (ms: number) => {
+      now += ms;
+    },
+    waits,
+  };
+}
+
+describe('normalizeEndpoint', () => {
+  it('should collapse ids and strip query strings', () => {
+    expect(normalizeEndpoint('/emailer_messages/5f1a2b3c4d5e6f7a8b9c0d1e/activities')).toBe('/emailer_messages/:id/activities');
+    expect(normalizeEndpoint('/mixed_people/search?page=2')).toBe('/mixed_people/search');
+  });
+});
+
+describe('RateLimiter', () => {
+  it('should not throttle endpoints with unknown limits', async () => {
+    const clock = fakeClock();
+    const limiter = new RateLimiter({ maxWaitMs: 60_000, ...clock });
+
+    for (let i = 0; i < 100; i++) await limiter.acquire('/people/match');
+    expect(clock.waits).toEqual([]);
+  });
+
+  it('should sync limits from Apollo headers', () => {
+    const clock = fakeClock();
+    const limiter = new RateLimiter({ maxWaitMs: 60_000, ...clock });
+
+    limiter.update('/mixed_people/search', {
+      'x-rate-limit-minute': '50',
+      'x-minute-usage': '8',
+      'x-rate-limit-24-hour': '600',
+      'x-24-hour-requests-left': '590',
+    });
+
+    const [status] = limiter.status('/mixed_people/search');
+    expect(status.windows.minute).toMatchObject({ limit: 50, remaining: 42 });
+    expect(status.windows.day).toMatchObject({ limit: 600, remaining: 590 });
+    expect(status.windows.hour).toBeUndefined();
+  });
+
+  it('should queue calls until the minute bucket refills', async () => {
+    const clock = fakeClock();
+    const limiter = new RateLimiter({ maxWaitMs: 60_000, ...clock });
+    limiter.update('/people/match', { 'x-rate-limit-minute': '60', 'x-minute-requests-left': '1' });
+
+    await limiter.acquire('/people/match');
+    await limiter.acquire('/people/match');
+
+    expect(clock.waits).toEqual([1000]);
+  });
+
+  it('should reject calls that would wait longer than maxWaitMs', async () => {
+    const clock = fakeClock();
+    const limiter = new RateLimiter({ maxWaitMs: 5_000, ...clock });
+    limiter.update('/people/match', { 'x-rate-limit-24-hour': '100', 'x-24-hour-requests-left': '0' });
+
+    await expect(limiter.acquire('/people/match')).rejects.toBeInstanceOf(RateLimitExceededError);
+  });
+
+  it('should track endpoints independently', async () => {
+    const clock = fakeClock();
+    const limiter = new RateLimiter({ maxWaitMs: 5_000, ...clock });
+    limiter.update('/people/match', { 'x-rate-limit-24-hour': '100', 'x-24-hour-requests-left': '0' });
+
+    await limiter.acquire('/organizations/enrich');
+    expect(limiter.status().map((s) => s.endpoint)).toEqual(['/people/match', '/organizations/enrich']);
+  });
+});
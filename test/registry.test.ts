@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ToolPolicy } from '../src/policy';
+import { ToolRegistry, renderOutput, toJsonSchema } from '../src/registry';
+
+function registry() {
+  return new ToolRegistry<{ prefix: string }>().define({
+    name: 'greet',
+    description: 'Say hello',
+    schema: z.object({
+      name: z.string().describe('Who to greet'),
+      times: z.number().int().min(1).max(3).optional().default(1).describe('How many times'),
+    }),
+    outputSchema: z.object({ greetings: z.array(z.string()) }),
+    handler: async ({ name, times }, { prefix }) => Array(times).fill(`${prefix} ${name}`),
+    format: (greetings) => ({ text: `Greetings:`, summary: greetings, structured: { greetings } }),
+  }).define({
+    name: 'broadcast',
+    description: 'Say hello to everyone.',
+    schema: z.object({}),
+    outputSchema: z.object({}),
+    requires: ['master_key'],
+    effect: 'outreach',
+    handler: async () => null,
+    format: () => ({ text: 'Sent', structured: {} }),
+  });
+}
+
+describe('toJsonSchema', () => {
+  it('should derive an object schema with descriptions, defaults and bounds', () => {
+    const schema = toJsonSchema(z.object({
+      domain: z.string().describe('Company domain'),
+      per_page: z.number().int().max(100).optional().default(10),
+    }));
+
+    expect(schema).toMatchObject({
+      type: 'object',
+      properties: {
+        domain: { type: 'string', description: 'Company domain' },
+        per_page: { type: 'integer', maximum: 100, default: 10 },
+      },
+      required: ['domain'],
+    });
+    expect(schema).not.toHaveProperty('$schema');
+  });
+
+  it('should unwrap refined schemas', () => {
+    const schema = toJsonSchema(z.object({ email: z.string().optional() }).refine((v) => v.email));
+    expect(schema).toMatchObject({ type: 'object', properties: { email: { type: 'string' } } });
+  });
+});
+
+describe('renderOutput', () => {
+  const output = {
+    text: 'Found 1 person\n\nResults:',
+    summary: [{ name: 'Jane' }],
+    data: { people: [{ name: 'Jane', organization: { name: 'Acme' } }] },
+    records: [{ name: 'Jane', organization: { name: 'Acme' } }],
+  };
+
+  it('should render only the summary by default', () => {
+    expect(renderOutput(output)).toBe('Found 1 person\n\nResults:\n[\n  {\n    "name": "Jane"\n  }\n]');
+  });
+
+  it('should append the full data when asked', () => {
+    expect(renderOutput(output, { response_format: 'full' })).toContain('\n\nFull data:\n{\n  "people"');
+    expect(renderOutput(output, {}, 'full')).toContain('Full data:');
+  });
+
+  it('should project records onto the requested fields', () => {
+    expect(renderOutput(output, { fields: ['organization.name', 'email'] }))
+      .toBe('Found 1 person\n\nResults:\n[\n  {\n    "organization.name": "Acme",\n    "email": null\n  }\n]');
+  });
+
+  it('should render text alone when there is nothing to project', () => {
+    expect(renderOutput({ text: 'No person found.' }, { fields: ['name'] })).toBe('No person found.');
+  });
+
+  it('should require fields for the fields format', () => {
+    expect(() => renderOutput(output, { response_format: 'fields' })).toThrow(McpError);
+  });
+
+  it('should render text alone', () => {
+    expect(renderOutput({ text: 'Nothing found.' })).toBe('Nothing found.');
+  });
+});
+
+describe('ToolRegistry', () => {
+  it('should list tools with derived input schemas', () => {
+    const [tool] = registry().list();
+    expect(tool.name).toBe('greet');
+    expect(tool.inputSchema).toMatchObject({ type: 'object', required: ['name'] });
+    expect(Object.keys(tool.inputSchema.properties)).toEqual(['name', 'times', 'response_format', 'fields']);
+  });
+
+  it('should advertise the output schema', () => {
+    const [tool] = registry().list();
+    expect(tool.outputSchema).toMatchObject({
+      type: 'object',
+      properties: { greetings: { type: 'array', items: { type: 'string' } } },
+      required: ['greetings'],
+    });
+  });
+
+  it('should validate arguments, run the handler and format the result', async () => {
+    const result = await registry().call('greet', { name: 'Jane', times: 2 }, { prefix: 'Hi' });
+    expect(result.content[0].text).toBe('Greetings:\n[\n  "Hi Jane",\n  "Hi Jane"\n]');
+  });
+
+  it('should return structured content regardless of the response format', async () => {
+    const result = await registry().call('greet', { name: 'Jane', fields: ['length'] }, { prefix: 'Hi' });
+    expect(result.structuredContent).toEqual({ greetings: ['Hi Jane'] });
+  });
+
+  it('should reject structured content that does not match the output schema', async () => {
+    const tools = new ToolRegistry<{}>().define({
+      name: 'broken',
+      description: 'Returns the wrong shape',
+      schema: z.object({}),
+      outputSchema: z.object({ count: z.number() }),
+      handler: async () => 'three',
+      format: (value) => ({ text: value, structured: { count: value as any } }),
+    });
+    await expect(tools.call('broken', {}, {})).rejects.toBeInstanceOf(McpError);
+  });
+
+  it('should reject invalid arguments', async () => {
+    await expect(registry().call('greet', { name: 'Jane', times: 5 }, { prefix: 'Hi' })).rejects.toBeInstanceOf(z.ZodError);
+  });
+
+  it('should list tools whose capabilities are unknown or present as usual', () => {
+    for (const capabilities of [{}, { master_key: true }]) {
+      const broadcast = registry().list({ capabilities }).find((t) => t.name === 'broadcast');
+      expect(broadcast?.description).toBe('Say hello to everyone.');
+    }
+  });
+
+  it('should mark or hide tools the key cannot use', () => {
+    const marked = registry().list({ capabilities: { master_key: false } }).find((t) => t.name === 'broadcast');
+    expect(marked?.description).toMatch(/^\[Unavailable with this API key\] Say hello to everyone\. .*master API key/);
+
+    const hidden = registry().list({ capabilities: { master_key: false }, unavailable: 'hide' });
+    expect(hidden.map((t) => t.name)).toEqual(['greet']);
+  });
+
+  it('should flag tools that need confirmation and mark or hide blocked ones', () => {
+    const confirm = registry().list({ policy: new ToolPolicy() }).find((t) => t.name === 'broadcast');
+    expect(confirm?.description).toBe('Say hello to everyone. Asks the user to confirm before it runs.');
+
+    const blocked = registry().list({ policy: new ToolPolicy({ read_only: true }) });
+    expect(blocked.find((t) => t.name === 'broadcast')?.description).toBe('[Blocked by server policy] Say hello to everyone.');
+    expect(blocked.find((t) => t.name === 'greet')?.description).toBe('Say hello');
+
+    const hidden = registry().list({ policy: new ToolPolicy({ tools: { greet: 'block' } }), unavailable: 'hide' });
+    expect(hidden.map((t) => t.name)).toEqual(['broadcast']);
+  });
+
+  it('should refuse calls that need a missing capability', async () => {
+    await expect(registry().call('broadcast', {}, { prefix: 'Hi' }, { master_key: false }))
+      .rejects.toThrow(/broadcast is unavailable: .*master API key/);
+    await expect(registry().call('broadcast', {}, { prefix: 'Hi' }, { master_key: true })).resolves.toBeDefined();
+  });
+
+  it('should reject unknown tools', async () => {
+    await expect(registry().call('nope', {}, { prefix: 'Hi' })).rejects.toBeInstanceOf(McpError);
+  });
+
+  it('should refuse duplicate tool names', () => {
+    const tools = registry();
+    expect(() => tools.define({
+      name: 'greet',
+      description: 'Again',
+      schema: z.object({}),
+      outputSchema: z.object({}),
+      handler: async () => null,
+      format: () => ({ text: '', structured: {} }),
+    })).toThrow();
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { computeDelay, describeWait, isRetryable, parseRetryAfter, retryOptionsFromEnv, withRetry } from '../src/retry';
+
+const options = { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 10_000 };
+
+function httpError(status: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`Request failed with status code ${status}`), {
+    response: { status, headers },
+  });
+}
+
+describe('isRetryable', () => {
+  it('should retry 429 and 5xx responses for idempotent calls', () => {
+    expect(isRetryable(httpError(429), true)).toBe(true);
+    expect(isRetryable(httpError(503), true)).toBe(true);
+  });
+
+  it('should not retry client errors', () => {
+    expect(isRetryable(httpError(401), true)).toBe(false);
+    expect(isRetryable(httpError(422), true)).toBe(false);
+  });
+
+  it('should only retry 429 for non-idempotent calls', () => {
+    expect(isRetryable(httpError(429), false)).toBe(true);
+    expect(isRetryable(httpError(500), false)).toBe(false);
+    expect(isRetryable({ code: 'ECONNRESET' }, false)).toBe(false);
+  });
+
+  it('should not retry when the daily quota is exhausted', () => {
+    expect(isRetryable(httpError(429, { 'x-24-hour-requests-left': '0' }), true)).toBe(false);
+  });
+});
+
+describe('computeDelay', () => {
+  it('should honor Retry-After seconds', () => {
+    expect(computeDelay(httpError(429, { 'retry-after': '3' }), 1, options)).toBe(3000);
+  });
+
+  it('should not shorten Retry-After', () => {
+    expect(computeDelay(httpError(429, { 'retry-after': '120' }), 1, options)).toBe(120_000);
+  });
+
+  it('should wait for the next minute when the minute quota is used up', () => {
+    const now = 5 * 60_000 + 45_000;
+    expect(computeDelay(httpError(429, { 'x-minute-requests-left': '0' }), 1, options, Math.random, now)).toBe(10_000);
+    expect(computeDelay(httpError(429, { 'x-minute-requests-left': '0' }), 1, { ...options, maxDelayMs: 60_000 }, Math.random, now)).toBe(15_000);
+  });
+
+  it('should grow the jitter ceiling exponentially', () => {
+    expect(computeDelay(httpError(503), 1, options, () => 1)).toBe(100);
+    expect(computeDelay(httpError(503), 3, options, () => 1)).toBe(400);
+    expect(computeDelay(httpError(503), 3, options, () => 0.5)).toBe(200);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse HTTP dates', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT', now)).toBe(5000);
+  });
+
+  it('should ignore garbage', () => {
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('withRetry', () => {
+  it('should retry until success', async () => {
+    let calls = 0;
+    const result = await withRetry(async () => {
+      if (++calls < 3) throw httpError(502);
+      return 'ok';
+    }, options, async () => {});
+
+    expect(result).toBe('ok');
+    expect(calls).toBe(3);
+  });
+
+  it('should report the attempt count when giving up', async () => {
+    const error: any = await withRetry(async () => { throw httpError(500); }, options, async () => {}).catch((e) => e);
+    expect(error.attempts).toBe(3);
+  });
+
+  it('should give up at once when Retry-After is longer than the max delay', async () => {
+    let calls = 0;
+    const waits: number[] = [];
+    const error: any = await withRetry(
+      async () => { calls++; throw httpError(429, { 'retry-after': '3600' }); },
+      options,
+      async (ms) => waits.push(ms)
+    ).catch((e) => e);
+    expect(calls).toBe(1);
+    expect(waits).toEqual([]);
+    expect(error).toMatchObject({ attempts: 1, retryAfterMs: 3_600_000 });
+  });
+
+  it('should fail fast on non-retryable errors', async () => {
+    let calls = 0;
+    const error: any = await withRetry(async () => { calls++; throw httpError(401); }, options, async () => {}).catch((e) => e);
+    expect(calls).toBe(1);
+    expect(error.attempts).toBe(1);
+  });
+});
+
+describe('describeWait', () => {
+  it('should round up to seconds or minutes', () => {
+    expect(describeWait(44_100)).toBe('45 seconds');
+    expect(describeWait(3_600_000)).toBe('60 minutes');
+  });
+});
+
+describe('retryOptionsFromEnv', () => {
+  it('should read overrides and fall back on invalid values', () => {
+    expect(retryOptionsFromEnv({ APOLLO_MAX_ATTEMPTS: '6', APOLLO_RETRY_BASE_DELAY_MS: 'abc' })).toEqual({
+      maxAttempts: 6,
+      baseDelayMs: 500,
+      maxDelayMs: 30_000,
+    });
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { checkEnrollment } from '../src/sequences';
+
+const sequence = { id: 'seq1', name: 'Q3 Outbound', active: true };
+const account = { id: 'acc1', email: 'sdr@acme.com', active: true };
+
+describe('checkEnrollment', () => {
+  it('should pass for an active sequence and sender', () => {
+    const check = checkEnrollment('seq1', 'acc1', sequence, account);
+    expect(check.ok).toBe(true);
+    expect(check.problems).toEqual([]);
+    expect(check.sequence).toEqual({ id: 'seq1', name: 'Q3 Outbound', active: true });
+  });
+
+  it('should flag an inactive sequence', () => {
+    const check = checkEnrollment('seq1', 'acc1', { ...sequence, active: false }, account);
+    expect(check.ok).toBe(false);
+    expect(check.problems[0]).toContain('not active');
+  });
+
+  it('should flag an inactive sender', () => {
+    const check = checkEnrollment('seq1', 'acc1', sequence, { ...account, active: false });
+    expect(check.ok).toBe(false);
+    expect(check.problems[0]).toContain('sdr@acme.com');
+  });
+
+  it('should report missing sequence and sender together', () => {
+    const check = checkEnrollment('seq9', 'acc9', undefined, undefined);
+    expect(check.problems).toHaveLength(2);
+    expect(check.sequence).toBeUndefined();
+  });
+});
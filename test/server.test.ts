@@ -0,0 +1,369 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { AuditLog } from '../src/audit';
+import { ToolPolicy } from '../src/policy';
+import { UsageTracker } from '../src/usage';
+import { startHarness, type Harness } from './support/harness';
+
+describe('MCP server against a mock Apollo', () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await startHarness();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  describe('tools/list', () => {
+    it('should list every tool with input and output schemas', async () => {
+      const { tools } = await harness.client.listTools();
+      const search = tools.find((t) => t.name === 'apollo_search_people');
+      expect(search?.inputSchema.properties).toHaveProperty('titles');
+      expect(search?.outputSchema?.properties).toHaveProperty('people');
+      expect(tools.find((t) => t.name === 'apollo_search_sequences')?.description).not.toMatch(/Unavailable/);
+    });
+
+    it('should mark master-key tools when Apollo refuses the probe', async () => {
+      harness.apollo.on('GET /email_accounts', { status: 403, body: { error: 'master key required' } });
+      const { tools } = await harness.client.listTools();
+      expect(tools.find((t) => t.name === 'apollo_search_sequences')?.description).toMatch(/^\[Unavailable with this API key\]/);
+      expect(tools.find((t) => t.name === 'apollo_search_people')?.description).not.toMatch(/Unavailable/);
+    });
+  });
+
+  describe('tools/call', () => {
+    it('should map search arguments onto Apollo parameters and summarize the results', async () => {
+      const result = await harness.call('apollo_search_people', {
+        titles: ['VP of Engineering'],
+        organization_domains: ['https://www.Acme.io/'],
+        employee_ranges: ['11-50'],
+      });
+
+      const [request] = harness.apollo.calls('POST /mixed_people/search');
+      expect(request.apiKey).toBe('test-key');
+      expect(request.body).toMatchObject({
+        person_titles: ['VP of Engineering'],
+        q_organization_domains_list: ['acme.io'],
+        organization_num_employees_ranges: ['11,50'],
+        page: 1,
+        per_page: 10,
+      });
+      expect(result.structuredContent).toMatchObject({
+        people: [
+          { id: 'person-ada', name: 'Ada Lovelace', company: 'Acme Analytics', location: 'San Francisco, California' },
+          { id: 'person-grace', location: 'United States' },
+        ],
+        pagination: { total_entries: 2 },
+      });
+      expect((result.content as any)[0].text).toMatch(/^Found 2 people/);
+    });
+
+    it('should enrich a person and report when nobody matched', async () => {
+      const found = await harness.call('apollo_enrich_person', { email: 'ada@acme.io' });
+      expect(found.structuredContent).toMatchObject({ person: { name: 'Ada Lovelace', phone: '+14155550101' }, cache: { hit: false } });
+
+      harness.apollo.on('POST /people/match', { body: { person: null } });
+      const missing = await harness.call('apollo_enrich_person', { email: 'nobody@acme.io' });
+      expect(missing.structuredContent).toMatchObject({ person: null });
+    });
+
+    it('should report bulk matches row by row', async () => {
+      const result = await harness.call('apollo_bulk_enrich_people', {
+        people: [{ email: 'ada@acme.io' }, { email: 'nobody@acme.io' }],
+      });
+      expect(result.structuredContent).toMatchObject({
+        counts: { matched: 1, not_found: 1, error: 0 },
+        results: [{ index: 0, status: 'matched' }, { index: 1, status: 'not_found' }],
+      });
+    });
+
+    it('should return an existing contact instead of creating a duplicate', async () => {
+      const result = await harness.call('apollo_create_contact', { first_name: 'Ada', last_name: 'Lovelace', email: 'ADA@acme.io' });
+      expect(result.structuredContent).toMatchObject({ status: 'duplicate', matched_on: 'email', contact: { id: 'contact-1' } });
+      expect(harness.apollo.calls('POST /contacts')).toHaveLength(0);
+    });
+
+    it('should find an existing account with the same domain under another name', async () => {
+      const existing = { id: 'account-acme', name: 'Acme Inc', domain: 'acme.io' };
+      harness.apollo.on('POST /accounts/search', ({ body }) => ({
+        body: { accounts: existing.name.toLowerCase().includes(body.q_organization_name.toLowerCase()) ? [existing] : [] },
+      }));
+      const result = await harness.call('apollo_create_account', { name: 'Acme Analytics', domain: 'https://www.acme.io' });
+      expect(result.structuredContent).toMatchObject({ status: 'duplicate', account: { id: 'account-acme' } });
+      expect(harness.apollo.calls('POST /accounts/search').map((c) => c.body.q_organization_name)).toEqual(['Acme Analytics', 'acme']);
+      expect(harness.apollo.calls('POST /accounts')).toHaveLength(0);
+    });
+
+    it('should check the sequence and sender before enrolling contacts', async () => {
+      const refused = await harness.call('apollo_add_contacts_to_sequence', {
+        sequence_id: 'seq-onboarding',
+        contact_ids: ['contact-1'],
+        email_account_id: 'mailbox-2',
+      });
+      expect(refused.structuredContent).toMatchObject({ enrolled: false, check: { ok: false } });
+      expect(harness.apollo.calls('POST /emailer_campaigns/:id/add_contact_ids')).toHaveLength(0);
+
+      const enrolled = await harness.call('apollo_add_contacts_to_sequence', {
+        sequence_id: 'seq-onboarding',
+        contact_ids: ['contact-1'],
+        email_account_id: 'mailbox-1',
+      });
+      expect(enrolled.structuredContent).toMatchObject({ enrolled: true, enrolled_count: 1 });
+      expect(harness.apollo.calls('POST /emailer_campaigns/:id/add_contact_ids')[0].params).toEqual({ id: 'seq-onboarding' });
+    });
+
+    it('should build an engagement report from messages and their activities', async () => {
+      const result = await harness.call('apollo_email_engagement_report', { sequence_id: 'seq-onboarding' });
+      expect(harness.apollo.calls('GET /emailer_messages/search')[0].query).toMatchObject({
+        'emailer_campaign_ids[]': 'seq-onboarding',
+      });
+      expect(result.structuredContent).toMatchObject({
+        messages: 2,
+        totals: { opens: 2, clicks: 2, replies: 2, open_rate: 1 },
+        by_step: [{ key: 'step-1' }, { key: 'step-2' }],
+      });
+    });
+  });
+
+  describe('files', () => {
+    it('should keep each workspace in its own folder when confined', async () => {
+      const teamA = await startHarness({ apiKey: 'team-a-key', confine: true });
+      const teamB = await startHarness({ apiKey: 'team-b-key', confine: true, dataDir: teamA.dataDir });
+      try {
+        const exported = await teamA.call('apollo_export', { source: 'people', filename: 'leads' });
+        const { path: fileA } = exported.structuredContent as { path: string };
+        expect(fileA.startsWith(teamA.dataDir)).toBe(true);
+
+        await expect(teamB.call('apollo_enrich_file', { input: path.basename(fileA) })).rejects.toThrow(/ENOENT/);
+        const { path: fileB } = (await teamB.call('apollo_export', { source: 'people', filename: 'leads' })).structuredContent as { path: string };
+        expect(path.basename(fileB)).toBe(path.basename(fileA));
+        expect(path.dirname(fileB)).not.toBe(path.dirname(fileA));
+      } finally {
+        await teamB.close();
+        await teamA.close();
+      }
+    });
+  });
+
+  describe('tool policy', () => {
+    let guarded: Harness | undefined;
+
+    afterEach(async () => {
+      await guarded?.close();
+      guarded = undefined;
+    });
+
+    it('should ask before a write and run it once confirmed', async () => {
+      await harness.call('apollo_update_contact', { contact_id: 'contact-1', title: 'CTO' });
+      expect(harness.elicitations).toHaveLength(1);
+      expect(harness.elicitations[0]).toMatch(/^Allow apollo_update_contact\? It changes records/);
+      expect(harness.elicitations[0]).toContain('"title": "CTO"');
+      expect(harness.apollo.calls('PUT /contacts/:id')).toHaveLength(1);
+
+      await harness.call('apollo_search_people', {});
+      expect(harness.elicitations).toHaveLength(1);
+    });
+
+    it('should not run a write the user declines', async () => {
+      guarded = await startHarness({ confirm: () => ({ action: 'decline' }) });
+      await expect(guarded.call('apollo_update_contact', { contact_id: 'contact-1', title: 'CTO' })).rejects.toMatchObject({
+        code: ErrorCode.InvalidRequest,
+        message: expect.stringContaining('did not confirm apollo_update_contact'),
+      });
+      expect(guarded.apollo.calls('PUT /contacts/:id')).toHaveLength(0);
+    });
+
+    it('should refuse confirm-required tools when the client cannot ask', async () => {
+      guarded = await startHarness({ elicitation: false });
+      await expect(guarded.call('apollo_update_contact', { contact_id: 'contact-1', title: 'CTO' })).rejects.toMatchObject({
+        message: expect.stringContaining('no elicitation support'),
+      });
+      expect(guarded.apollo.calls('PUT /contacts/:id')).toHaveLength(0);
+    });
+
+    it('should block writes in read-only mode without asking', async () => {
+      guarded = await startHarness({ policy: new ToolPolicy({ read_only: true }) });
+      await expect(guarded.call('apollo_update_contact_stage', { contact_ids: ['contact-1'], contact_stage_id: 'stage-1' }))
+        .rejects.toMatchObject({ code: ErrorCode.InvalidRequest, message: expect.stringContaining('read-only mode') });
+      expect(guarded.elicitations).toHaveLength(0);
+
+      const { tools } = await guarded.client.listTools();
+      expect(tools.find((t) => t.name === 'apollo_create_contact')?.description).toMatch(/^\[Blocked by server policy\]/);
+      expect(tools.find((t) => t.name === 'apollo_search_people')?.description).not.toMatch(/Blocked/);
+    });
+
+    it('should run a dry run of an outreach tool as a read, without asking', async () => {
+      const args = { sequence_id: 'seq-onboarding', contact_ids: ['contact-1'], email_account_id: 'mailbox-1', dry_run: true };
+      const result = await harness.call('apollo_add_contacts_to_sequence', args);
+      expect(result.structuredContent).toMatchObject({ enrolled: false, check: { ok: true } });
+      expect(harness.elicitations).toHaveLength(0);
+
+      guarded = await startHarness({ policy: new ToolPolicy({ read_only: true }) });
+      await guarded.call('apollo_add_contacts_to_sequence', args);
+      await expect(guarded.call('apollo_add_contacts_to_sequence', { ...args, dry_run: false }))
+        .rejects.toMatchObject({ message: expect.stringContaining('read-only mode') });
+      expect(guarded.apollo.calls('POST /emailer_campaigns/:id/add_contact_ids')).toHaveLength(0);
+    });
+
+    it('should run allowed writes without asking', async () => {
+      guarded = await startHarness({ policy: new ToolPolicy({ tools: { apollo_update_contact: 'allow' } }) });
+      await guarded.call('apollo_update_contact', { contact_id: 'contact-1', title: 'CTO' });
+      expect(guarded.elicitations).toHaveLength(0);
+    });
+  });
+
+  describe('audit log', () => {
+    let audited: Harness;
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(path.join(tmpdir(), 'apollo-audit-'));
+      audited = await startHarness({ audit: new AuditLog({ file: path.join(dir, 'audit.jsonl') }) });
+    });
+
+    afterEach(async () => {
+      await audited.close();
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should log each tool call and the Apollo requests it made, with personal data masked', async () => {
+      await audited.call('apollo_enrich_person', { email: 'ada@acme.io' });
+
+      const result = await audited.call('apollo_get_audit_log', { tool: 'apollo_enrich_person' });
+      const { entries } = result.structuredContent as { entries: any[] };
+      expect(entries).toMatchObject([
+        {
+          type: 'tool',
+          status: 'ok',
+          client: 'harness/0.0.0',
+          arguments: { email: 'a***@acme.io' },
+          credits: 0,
+        },
+        { type: 'apollo', method: 'POST', endpoint: '/people/match', http_status: 200, status: 'ok' },
+      ]);
+      expect(entries[1].call_id).toBe(entries[0].call_id);
+      expect(JSON.stringify(entries)).not.toContain('ada@acme.io');
+    });
+
+    it('should log failed calls and every retry', async () => {
+      audited.apollo.on('GET /contact_stages', { status: 500, body: { error: 'Something broke' } });
+      await expect(audited.call('apollo_get_contact_stages')).rejects.toBeDefined();
+
+      const { entries } = (await audited.call('apollo_get_audit_log', { tool: 'apollo_get_contact_stages', status: 'error' }))
+        .structuredContent as { entries: any[] };
+      expect(entries).toMatchObject([
+        { type: 'tool', error: expect.stringContaining('Apollo API error 500') },
+        { type: 'apollo', http_status: 500 },
+        { type: 'apollo', http_status: 500 },
+      ]);
+    });
+  });
+
+  describe('credit usage', () => {
+    let budgeted: Harness;
+
+    beforeEach(async () => {
+      budgeted = await startHarness({ client: { usage: new UsageTracker({ dailyBudget: 1 }) } });
+    });
+
+    afterEach(async () => {
+      await budgeted.close();
+    });
+
+    it('should report credits by tool and refuse calls once the budget is spent', async () => {
+      await budgeted.call('apollo_enrich_person', { email: 'ada@acme.io' });
+      await expect(budgeted.call('apollo_enrich_organization', { domain: 'acme.io' })).rejects.toMatchObject({
+        code: ErrorCode.InvalidRequest,
+        message: expect.stringContaining('daily Apollo credit budget of 1 is used up'),
+      });
+      expect(budgeted.apollo.calls('POST /organizations/enrich')).toHaveLength(0);
+
+      const usage = await budgeted.call('apollo_get_usage');
+      expect(usage.structuredContent).toMatchObject({
+        today: { credits: 1, budget: 1, remaining: 0 },
+        by_tool: [{ tool: 'apollo_enrich_person', calls: 1, credits: 1 }],
+      });
+    });
+
+    it('should say when usage is not tracked', async () => {
+      await expect(harness.call('apollo_get_usage')).rejects.toMatchObject({
+        code: ErrorCode.InvalidRequest,
+        message: expect.stringContaining('not tracked'),
+      });
+    });
+  });
+
+  describe('errors', () => {
+    it('should reject invalid arguments without calling Apollo', async () => {
+      await expect(harness.call('apollo_search_people', { seniorities: ['emperor'] }))
+        .rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+      expect(harness.apollo.calls('POST /mixed_people/search')).toHaveLength(0);
+    });
+
+    it('should reject an overlong ICP pattern as invalid params', async () => {
+      const icp = { rules: [{ name: 'Sales', field: 'title', matches: ['sales'.repeat(50)], weight: 1 }] };
+      await expect(harness.call('apollo_score_leads', { records: [{ id: 1, title: 'VP Sales' }], icp }))
+        .rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+
+      icp.rules[0].matches = ['vp*sales'];
+      const scored = await harness.call('apollo_score_leads', { records: [{ id: 1, title: 'VP Sales' }], icp });
+      expect(scored.structuredContent).toMatchObject({ leads: [{ id: '1', score: 1 }] });
+    });
+
+    it('should explain an invalid API key', async () => {
+      harness.apollo.on('POST /organizations/enrich', { status: 401, body: { error: 'Invalid access credentials.' } });
+      await expect(harness.call('apollo_enrich_organization', { domain: 'acme.io' })).rejects.toMatchObject({
+        code: ErrorCode.InvalidRequest,
+        message: expect.stringContaining('Invalid Apollo API key'),
+      });
+    });
+
+    it('should explain a 403 from a master-key endpoint and mark the tool unavailable', async () => {
+      harness.apollo.on('POST /emailer_campaigns/search', { status: 403, body: { error: 'Forbidden' } });
+      await expect(harness.call('apollo_search_sequences')).rejects.toMatchObject({
+        code: ErrorCode.InvalidRequest,
+        message: expect.stringContaining('master API key'),
+      });
+      await expect(harness.call('apollo_search_sequences')).rejects.toMatchObject({
+        message: expect.stringContaining('apollo_search_sequences is unavailable'),
+      });
+    });
+
+    it('should retry a 429 and succeed once Apollo recovers', async () => {
+      harness.apollo.on('POST /mixed_companies/search', [
+        { status: 429, headers: { 'retry-after': '0' }, body: { error: 'Too many requests' } },
+        { body: { organizations: [], pagination: { total_entries: 0 } } },
+      ]);
+      const result = await harness.call('apollo_search_organizations', { keywords: 'analytics' });
+      expect(result.structuredContent).toMatchObject({ organizations: [] });
+      expect(harness.apollo.calls('POST /mixed_companies/search')).toHaveLength(2);
+    });
+
+    it('should give up on persistent 429s and 500s and say how often it tried', async () => {
+      harness.apollo.on('POST /mixed_companies/search', { status: 429, headers: { 'retry-after': '0' }, body: {} });
+      await expect(harness.call('apollo_search_organizations')).rejects.toMatchObject({
+        code: ErrorCode.InternalError,
+        message: expect.stringContaining('rate limit exceeded (gave up after 2 attempts)'),
+      });
+
+      harness.apollo.on('GET /contact_stages', { status: 500, body: { error: 'Something broke' } });
+      await expect(harness.call('apollo_get_contact_stages')).rejects.toMatchObject({
+        code: ErrorCode.InternalError,
+        message: expect.stringContaining('Apollo API error 500 (gave up after 2 attempts): Something broke'),
+      });
+      expect(harness.apollo.calls('GET /contact_stages')).toHaveLength(2);
+    });
+
+    it('should not retry a failed write', async () => {
+      harness.apollo.on('POST /contacts', { status: 500, body: {} });
+      await expect(harness.call('apollo_create_contact', { first_name: 'Grace', last_name: 'Hopper', skip_duplicate_check: true }))
+        .rejects.toMatchObject({ code: ErrorCode.InternalError });
+      expect(harness.apollo.calls('POST /contacts')).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ElicitRequestSchema, type ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import { ApolloClient, type ApolloClientOptions } from '../../src/apollo-client';
+import { ClientPool } from '../../src/credentials';
+import { AuditLog } from '../../src/audit';
+import { ToolPolicy } from '../../src/policy';
+import { createServer } from '../../src/server';
+import { MockApollo } from './mock-apollo';
+
+export interface Harness {
+  client: Client;
+  apollo: MockApollo;
+  // Where file tools read and write; removed on close.
+  dataDir: string;
+  // Confirmation prompts the server sent, in order.
+  elicitations: string[];
+  call(name: string, args?: Record<string, unknown>): ReturnType<Client['callTool']>;
+  close(): Promise<void>;
+}
+
+// Connects an MCP client, over an in-memory transport, to the real server talking to a mock Apollo.
+// Retries are kept but made instant so 429 and 5xx paths run quickly. The client supports elicitation and,
+// unless `confirm` says otherwise, approves every confirmation prompt.
+export async function startHarness(options: {
+  apiKey?: string;
+  client?: ApolloClientOptions;
+  policy?: ToolPolicy;
+  audit?: AuditLog;
+  confirm?: (message: string) => ElicitResult;
+  elicitation?: boolean;
+  // Confine file tools as shared HTTP deployments do; dataDir lets several harnesses share one directory.
+  confine?: boolean;
+  dataDir?: string;
+} = {}): Promise<Harness> {
+  const apollo = await MockApollo.start();
+  const dataDir = options.dataDir ?? await mkdtemp(path.join(tmpdir(), 'apollo-harness-'));
+  const clients = new ClientPool((tenant) => new ApolloClient(tenant.apiKey, {
+    baseUrl: apollo.baseUrl,
+    maxAttempts: 2,
+    baseDelayMs: 1,
+    maxDelayMs: 5,
+    audit: options.audit,
+    ...options.client,
+  }));
+
+  const server = createServer(
+    clients,
+    { apiKey: options.apiKey ?? 'test-key', profiles: new Map() },
+    { dataDir, confine: options.confine ?? false },
+    { policy: options.policy, audit: options.audit }
+  );
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client(
+    { name: 'harness', version: '0.0.0' },
+    { capabilities: options.elicitation === false ? {} : { elicitation: {} } }
+  );
+  const elicitations: string[] = [];
+  if (options.elicitation !== false) {
+    client.setRequestHandler(ElicitRequestSchema, async (request) => {
+      elicitations.push(request.params.message);
+      return options.confirm?.(request.params.message) ?? { action: 'accept', content: { confirm: true } };
+    });
+  }
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+  return {
+    client,
+    apollo,
+    dataDir,
+    elicitations,
+    call: (name, args = {}) => client.callTool({ name, arguments: args }),
+    async close() {
+      await client.close();
+      await server.close();
+      await apollo.close();
+      await rm(dataDir, { recursive: true, force: true });
+    },
+  };
+}
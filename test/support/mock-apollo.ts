@@ -0,0 +1,166 @@
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+// A local stand-in for the Apollo API. Every route answers from a fixture in test/fixtures/apollo until a
+// test overrides it with `on`, and every request is recorded so tests can assert what the server sent.
+
+const FIXTURES = path.join(path.dirname(fileURLToPath(import.meta.url)), '../fixtures/apollo');
+
+export function fixture<T = any>(name: string): T {
+  return JSON.parse(readFileSync(path.join(FIXTURES, `${name}.json`), 'utf8'));
+}
+
+export interface RecordedRequest {
+  method: string;
+  // Path below the API root, e.g. /mixed_people/search.
+  path: string;
+  params: Record<string, string>;
+  query: Record<string, string | string[]>;
+  body: any;
+  apiKey?: string;
+}
+
+export interface MockReply {
+  status?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export type MockHandler = (request: RecordedRequest) => MockReply;
+
+// A list of replies is served in order, the last one repeating: [{ status: 429 }, { body }] fails once.
+type Route = MockReply | MockReply[] | MockHandler;
+
+const DEFAULT_ROUTES: Record<string, Route> = {
+  'POST /mixed_people/search': { body: fixture('people-search') },
+  'POST /people/match': { body: fixture('people-match') },
+  'POST /people/bulk_match': ({ body }) => {
+    const { person } = fixture('people-match');
+    return { body: { matches: body.details.map((d: any) => (d.email === person.email ? person : null)) } };
+  },
+  'POST /organizations/enrich': ({ body }) =>
+    ({ body: { organization: body.domain === 'acme.io' ? fixture('organization') : null } }),
+  'POST /mixed_companies/search': { body: fixture('organizations-search') },
+  'POST /emailer_campaigns/search': { body: fixture('emailer-campaigns-search') },
+  'POST /emailer_campaigns/:id/add_contact_ids': ({ body }) =>
+    ({ body: { contacts: body.contact_ids.map((id: string) => ({ id })) } }),
+  'POST /emailer_campaigns/remove_or_stop_contact_ids': { body: { contacts: [] } },
+  'GET /email_accounts': { body: fixture('email-accounts') },
+  'GET /emailer_messages/search': { body: fixture('emailer-messages-search') },
+  'GET /emailer_messages/:id/activities': { body: fixture('emailer-message-activities') },
+  'POST /contacts/search': { body: fixture('contacts-search') },
+  'POST /contacts': { body: fixture('contact') },
+  'PUT /contacts/:id': ({ params, body }) => ({ body: { contact: { ...fixture('contact').contact, ...body, id: params.id } } }),
+  'POST /contacts/update_stages': { body: { contacts: [] } },
+  'GET /contact_stages': { body: fixture('contact-stages') },
+  'POST /accounts/search': { body: fixture('accounts-search') },
+  'POST /accounts': { body: fixture('account') },
+  'PUT /accounts/:id': ({ params, body }) => ({ body: { account: { ...fixture('account').account, ...body, id: params.id } } }),
+  'POST /accounts/update_owners': { body: { accounts: [] } },
+};
+
+function matchRoute(pattern: string, method: string, pathname: string): Record<string, string> | undefined {
+  const [routeMethod, routePath] = pattern.split(' ');
+  const expected = routePath.split('/');
+  const actual = pathname.split('/');
+  if (routeMethod !== method || expected.length !== actual.length) return undefined;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < expected.length; i++) {
+    if (expected[i].startsWith(':')) params[expected[i].slice(1)] = decodeURIComponent(actual[i]);
+    else if (expected[i] !== actual[i]) return undefined;
+  }
+  return params;
+}
+
+async function readBody(req: IncomingMessage): Promise<any> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString('utf8');
+  return text ? JSON.parse(text) : undefined;
+}
+
+export class MockApollo {
+  readonly requests: RecordedRequest[] = [];
+  private routes = new Map<string, Route>();
+  private served = new Map<string, number>();
+
+  private constructor(private server: Server) {}
+
+  static async start(): Promise<MockApollo> {
+    const server = createServer();
+    const mock = new MockApollo(server);
+    server.on('request', (req, res) => {
+      mock.handle(req).then(
+        ({ status = 200, body = {}, headers = {} }) => {
+          res.writeHead(status, { 'content-type': 'application/json', ...headers }).end(JSON.stringify(body));
+        },
+        (error) => res.writeHead(500).end(JSON.stringify({ error: `Mock failed: ${error.message}` }))
+      );
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    return mock;
+  }
+
+  get baseUrl(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/v1`;
+  }
+
+  // Replaces the reply for a route such as 'POST /people/match' until reset.
+  on(route: string, reply: Route): this {
+    this.routes.set(route, reply);
+    this.served.delete(route);
+    return this;
+  }
+
+  // Requests made to one route, e.g. to check the parameters a tool sent.
+  calls(route: string): RecordedRequest[] {
+    return this.requests.filter((r) => matchRoute(route, r.method, r.path));
+  }
+
+  reset(): void {
+    this.requests.length = 0;
+    this.routes.clear();
+    this.served.clear();
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => this.server.close((error) => (error ? reject(error) : resolve())));
+  }
+
+  private async handle(req: IncomingMessage): Promise<MockReply> {
+    const url = new URL(req.url!, 'http://localhost');
+    const query: Record<string, string | string[]> = {};
+    for (const key of new Set(url.searchParams.keys())) {
+      const values = url.searchParams.getAll(key);
+      query[key] = values.length > 1 ? values : values[0];
+    }
+    const request: RecordedRequest = {
+      method: req.method!,
+      path: url.pathname.replace(/^\/v1/, ''),
+      params: {},
+      query,
+      body: await readBody(req),
+      apiKey: req.headers['x-api-key'] as string | undefined,
+    };
+    this.requests.push(request);
+
+    if (!request.apiKey) return { status: 401, body: { error: 'Invalid access credentials.' } };
+
+    const routes = [...this.routes, ...Object.entries(DEFAULT_ROUTES)];
+    for (const [pattern, route] of routes) {
+      const params = matchRoute(pattern, request.method, request.path);
+      if (!params) continue;
+      request.params = params;
+      if (typeof route === 'function') return route(request);
+      if (!Array.isArray(route)) return route;
+      const count = this.served.get(pattern) ?? 0;
+      this.served.set(pattern, count + 1);
+      return route[Math.min(count, route.length - 1)];
+    }
+    return { status: 404, body: { error: `No mock for ${request.method} ${request.path}` } };
+  }
+}
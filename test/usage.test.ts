@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { newCall, runInCall } from '../src/call-context';
+import { CreditBudgetError, UsageTracker, usageOptionsFromEnv } from '../src/usage';
+
+const DAY = 86_400_000;
+
+describe('usageOptionsFromEnv', () => {
+  it('should read budgets and ignore values that are not numbers', () => {
+    const options = usageOptionsFromEnv({ APOLLO_USAGE_DIR: '/tmp/usage', APOLLO_DAILY_CREDIT_BUDGET: '50', APOLLO_SESSION_CREDIT_BUDGET: 'lots' });
+    expect(options).toEqual({ dir: '/tmp/usage', dailyBudget: 50, sessionBudget: undefined });
+  });
+});
+
+describe('UsageTracker', () => {
+  let dir: string;
+  let file: string;
+  let now: number;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'apollo-usage-'));
+    file = path.join(dir, 'default.jsonl');
+    now = Date.parse('2026-03-10T12:00:00Z');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const charge = (tracker: UsageTracker, credits: number, estimate = credits) =>
+    tracker.charge('/people/match', estimate, async () => ({ credits }), (data) => data.credits);
+
+  it('should attribute credits to the tool making the call and persist them', async () => {
+    const tracker = new UsageTracker({ file, now: () => now });
+    const call = newCall('apollo_enrich_person');
+    await runInCall(call, () => charge(tracker, 1));
+    await charge(tracker, 2);
+    expect(call.credits).toBe(1);
+
+    const lines = (await readFile(file, 'utf8')).trim().split('\n').map((line) => JSON.parse(line));
+    expect(lines).toEqual([
+      { at: '2026-03-10T12:00:00.000Z', tool: 'apollo_enrich_person', endpoint: '/people/match', credits: 1 },
+      { at: '2026-03-10T12:00:00.000Z', tool: 'unknown', endpoint: '/people/match', credits: 2 },
+    ]);
+  });
+
+  it('should return the result and keep counting when the ledger cannot be written', async () => {
+    await writeFile(path.join(dir, 'blocked'), '');
+    const tracker = new UsageTracker({ file: path.join(dir, 'blocked', 'default.jsonl'), dailyBudget: 5, now: () => now });
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+    await expect(charge(tracker, 2)).resolves.toEqual({ credits: 2 });
+    expect(logged).toHaveBeenCalledWith('Failed to write the usage ledger:', expect.stringContaining('EEXIST'));
+    logged.mockRestore();
+    expect((await tracker.report(1)).today).toEqual({ credits: 2, budget: 5, remaining: 3 });
+  });
+
+  it('should report spend by day and by tool, including earlier sessions', async () => {
+    const earlier = new UsageTracker({ file, now: () => now - DAY });
+    await runInCall(newCall('apollo_bulk_enrich_people'), () => charge(earlier, 5));
+
+    const tracker = new UsageTracker({ file, dailyBudget: 10, now: () => now });
+    await runInCall(newCall('apollo_enrich_person'), () => charge(tracker, 1));
+    await runInCall(newCall('apollo_enrich_person'), () => charge(tracker, 1));
+
+    expect(await tracker.report(7)).toEqual({
+      today: { credits: 2, budget: 10, remaining: 8 },
+      session: { credits: 2, budget: null, remaining: null },
+      by_day: [{ date: '2026-03-10', calls: 2, credits: 2 }, { date: '2026-03-09', calls: 1, credits: 5 }],
+      by_tool: [{ tool: 'apollo_bulk_enrich_people', calls: 1, credits: 5 }, { tool: 'apollo_enrich_person', calls: 2, credits: 2 }],
+    });
+    expect((await tracker.report(1)).by_day).toEqual([{ date: '2026-03-10', calls: 2, credits: 2 }]);
+  });
+
+  it('should refuse calls that could exceed the daily budget and reset the next day', async () => {
+    const tracker = new UsageTracker({ file, dailyBudget: 3, now: () => now });
+    await charge(tracker, 2);
+
+    await expect(charge(tracker, 2)).rejects.toBeInstanceOf(CreditBudgetError);
+    await charge(tracker, 1);
+    await expect(charge(tracker, 0)).rejects.toThrow(/daily Apollo credit budget of 3 is used up \(3 spent today/);
+
+    now += DAY;
+    await expect(charge(tracker, 2)).resolves.toEqual({ credits: 2 });
+  });
+
+  it('should count only this process towards the session budget', async () => {
+    await charge(new UsageTracker({ file, now: () => now }), 5);
+
+    const tracker = new UsageTracker({ file, sessionBudget: 2, now: () => now });
+    await charge(tracker, 2);
+    await expect(charge(tracker, 0)).rejects.toMatchObject({ scope: 'session', budget: 2, spent: 2 });
+  });
+
+  it('should reserve credits for calls in flight', async () => {
+    const tracker = new UsageTracker({ dailyBudget: 2, now: () => now });
+    let finish!: () => void;
+    const slow = tracker.charge('/people/bulk_match', 2, () => new Promise<void>((resolve) => (finish = resolve)), () => 1);
+
+    await new Promise((resolve) => setImmediate(resolve));
+    await expect(charge(tracker, 1)).rejects.toBeInstanceOf(CreditBudgetError);
+    finish();
+    await slow;
+    await expect(charge(tracker, 1)).resolves.toEqual({ credits: 1 });
+  });
+});